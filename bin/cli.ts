@@ -1,9 +1,30 @@
 #!/usr/bin/env node
 
-import { existsSync, mkdirSync, copyFileSync, readFileSync, writeFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { existsSync, mkdirSync, copyFileSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, dirname, resolve, extname } from 'path';
 import { homedir } from 'os';
 import { fileURLToPath } from 'url';
+import {
+  validateHippocampusEntry,
+  loadConfig,
+  migrateConfig,
+  readEnvConfig,
+  resolveConfig,
+  validateConfig,
+  validateConfigText,
+  formatConfigIssue,
+  getConfigPresets,
+  applyPreset,
+  resolveWorkspacePath,
+  CONFIG_FILE_NAME,
+  DEFAULT_CONFIG,
+  scoreMessages,
+  getRetentionTier,
+  resolveTokenizer,
+  simulateCompaction,
+  type CompactionMessage,
+  type ConfigIssue,
+} from '../extension/hippocampus.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -79,19 +100,37 @@ function detectPlatform(): Platform {
   };
 }
 
-async function init() {
+function printPresets() {
+  const { presets } = getConfigPresets(process.cwd());
+  for (const [name, preset] of Object.entries(presets)) {
+    log(`     ${name.padEnd(14)} ${preset.description}`, COLORS.dim);
+  }
+}
+
+async function init(preset?: string) {
   console.log('');
   log('🧠 hippocampus.md - Context Lifecycle Extension', COLORS.cyan);
   log('   Memory that decays like biology', COLORS.dim);
   console.log('');
 
+  // Check the preset before installing anything (team presets come from the workspace)
+  if (preset) {
+    const [issue] = applyPreset(preset, getConfigPresets(process.cwd()).presets).issues;
+    if (issue) {
+      logError(issue.message.replace(/; available: .*$/, ''));
+      log('   Available presets:', COLORS.dim);
+      printPresets();
+      process.exit(1);
+    }
+  }
+
   // Auto-detect platform
   const platform = detectPlatform();
   logStep(`Detected platform: ${platform.name}`);
   logSuccess(`Using ${platform.baseDir}`);
   
   const extensionsDir = platform.extensionsDir;
-  const configPath = join(platform.baseDir, 'hippocampus.config.json');
+  const configPath = join(platform.baseDir, CONFIG_FILE_NAME);
 
   // Step 1: Create extensions directory if needed
   logStep('Checking extensions directory...');
@@ -122,33 +161,47 @@ async function init() {
   copyFileSync(sourceFile, destFile);
   logSuccess(`Installed to ${destFile}`);
 
+  // Editors use the schema for completion and inline validation of the config
+  const schemaSource = join(__dirname, '..', '..', 'extension', 'hippocampus.config.schema.json');
+  if (existsSync(schemaSource)) {
+    copyFileSync(schemaSource, join(extensionsDir, 'hippocampus.config.schema.json'));
+  }
+
+  // Tokenizer rank files are looked up next to the installed extension
+  const tokenizersSource = join(__dirname, '..', '..', 'extension', 'tokenizers');
+  if (existsSync(tokenizersSource)) {
+    const tokenizersDest = join(extensionsDir, 'tokenizers');
+    mkdirSync(tokenizersDest, { recursive: true });
+    const files = readdirSync(tokenizersSource).filter(f => f.endsWith('.json'));
+    files.forEach(f => copyFileSync(join(tokenizersSource, f), join(tokenizersDest, f)));
+    logSuccess(`Installed tokenizers (${files.map(f => f.replace(/\.json$/, '')).join(', ')})`);
+  } else {
+    logWarning('Tokenizer data not found, token counts will use the 4-chars-per-token estimate');
+  }
+
   // Step 3: Create default config if needed
   logStep('Setting up configuration...');
   if (!existsSync(configPath)) {
+    // Only the preset: explicit values would override the tuning of any preset picked later
     const defaultConfig = {
-      enabled: true,
-      debug: false,
-      logPath: '/tmp/hippocampus-debug.log',
-      decay: {
-        decision: 0.03,
-        user_intent: 0.05,
-        context: 0.12,
-        tool_result: 0.2,
-        ephemeral: 0.35,
-      },
-      retention: {
-        sparse: 0.25,
-        compress: 0.65,
-      },
-      sparseIndex: {
-        enabled: true,
-        path: join(platform.baseDir, 'hippocampus-index.json'),
-      },
+      $schema: './extensions/hippocampus.config.schema.json',
+      enabled: DEFAULT_CONFIG.enabled,
+      debug: DEFAULT_CONFIG.debug,
+      preset: preset ?? 'balanced',
     };
     writeFileSync(configPath, JSON.stringify(defaultConfig, null, 2));
-    logSuccess(`Created config at ${configPath}`);
+    logSuccess(`Created config at ${configPath} (preset: ${defaultConfig.preset})`);
   } else {
-    logSuccess('Config already exists');
+    migrateConfigFile(configPath);
+    if (preset) {
+      try {
+        const existing = JSON.parse(readFileSync(configPath, 'utf-8'));
+        writeFileSync(configPath, JSON.stringify({ ...existing, preset }, null, 2));
+        logSuccess(`Set preset to ${preset}`);
+      } catch {
+        logWarning(`Could not set the preset, add "preset": "${preset}" to ${configPath} by hand`);
+      }
+    }
   }
 
   // Step 4: Remind about platform config
@@ -171,6 +224,30 @@ async function init() {
   console.log('');
 }
 
+/**
+ * Rewrite a config file written by an older init (decay/retention/logPath/sparseIndex)
+ * in the canonical shape, keeping the original as .backup.
+ */
+function migrateConfigFile(configPath: string) {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  } catch {
+    logWarning(`Config exists but could not be parsed: ${configPath}`);
+    return;
+  }
+
+  const legacyKeys = ['decay', 'retention', 'logPath', 'sparseIndex'].filter(key => key in raw);
+  if (legacyKeys.length === 0) {
+    logSuccess('Config already exists');
+    return;
+  }
+
+  copyFileSync(configPath, `${configPath}.backup`);
+  writeFileSync(configPath, JSON.stringify(migrateConfig(raw), null, 2));
+  logSuccess(`Migrated legacy config keys (${legacyKeys.join(', ')}), original kept as ${configPath}.backup`);
+}
+
 async function status() {
   log('🧠 hippocampus.md status', COLORS.cyan);
   console.log('');
@@ -180,10 +257,16 @@ async function status() {
   log(`  Platform: ${platform.name}`, COLORS.dim);
   console.log('');
 
+  const workspaceDir = process.cwd();
   const extensionPath = join(platform.extensionsDir, 'hippocampus.ts');
-  const configPath = join(platform.baseDir, 'hippocampus.config.json');
-  const indexPath = join(platform.baseDir, 'hippocampus-index.json');
-  const logPath = '/tmp/hippocampus-debug.log';
+  const configPaths = [join(platform.baseDir, CONFIG_FILE_NAME), join(workspaceDir, CONFIG_FILE_NAME)];
+  const config = loadConfig(workspaceDir, { globalDir: platform.baseDir });
+  // Older installs archived into the platform dir; fall back to it
+  const indexPath = [
+    resolveWorkspacePath(workspaceDir, config.indexFile),
+    join(platform.baseDir, 'hippocampus-index.json'),
+  ].find(p => existsSync(p)) ?? resolveWorkspacePath(workspaceDir, config.indexFile);
+  const logPath = resolveWorkspacePath(workspaceDir, config.logFile);
 
   // Check extension
   if (existsSync(extensionPath)) {
@@ -192,19 +275,24 @@ async function status() {
     logError(`Extension not installed at ${extensionPath}`);
   }
 
-  // Check config
-  if (existsSync(configPath)) {
-    logSuccess(`Config exists: ${configPath}`);
-    try {
-      const config = JSON.parse(readFileSync(configPath, 'utf-8'));
-      log(`     enabled: ${config.enabled}`, COLORS.dim);
-      log(`     debug: ${config.debug}`, COLORS.dim);
-    } catch {
-      logWarning('Config exists but could not be parsed');
-    }
+  // Check config (layers: defaults → global → workspace → HIPPOCAMPUS_* env)
+  const configFiles = configPaths.filter(p => existsSync(p));
+  if (configFiles.length > 0) {
+    configFiles.forEach(p => logSuccess(`Config exists: ${p}`));
   } else {
-    logWarning('No config file (using defaults)');
+    log('  ○ No config file (using defaults)', COLORS.dim);
+  }
+  const envOverrides = Object.keys(process.env).filter(name => name.startsWith('HIPPOCAMPUS_'));
+  if (envOverrides.length > 0) {
+    log(`     env overrides: ${envOverrides.join(', ')}`, COLORS.dim);
   }
+  if (config.enabled) {
+    log(`     enabled: ${config.enabled}`, COLORS.dim);
+  } else {
+    logWarning('Extension disabled by config (enabled: false)');
+  }
+  log(`     preset: ${config.preset || '(none)'}`, COLORS.dim);
+  log(`     debug: ${config.debug}`, COLORS.dim);
 
   // Check main platform config for compaction mode
   // OpenClaw/Clawdbot may have it in agents.defaults.compaction.mode or root compaction.mode
@@ -234,8 +322,13 @@ async function status() {
   if (existsSync(indexPath)) {
     try {
       const index = JSON.parse(readFileSync(indexPath, 'utf-8'));
-      const count = Object.keys(index.entries || {}).length;
-      logSuccess(`Sparse index: ${count} entries`);
+      const entries = Object.values(index.entries || {}) as Array<{ tokenEstimate?: number }>;
+      const invalid = entries.filter(e => !validateHippocampusEntry(e).valid).length;
+      const archivedTokens = entries.reduce((sum, e) => sum + (e.tokenEstimate || 0), 0);
+      logSuccess(`Sparse index: ${entries.length} entries (${archivedTokens} archived tokens) at ${indexPath}`);
+      if (invalid > 0) {
+        logWarning(`${invalid} entries do not match the HippocampusEntry schema and will be ignored`);
+      }
     } catch {
       logWarning('Sparse index exists but could not be parsed');
     }
@@ -414,15 +507,279 @@ async function score(filePath: string) {
   console.log('');
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// POLICIES COMMAND
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Read a session transcript: a JSON array of messages, { messages: [...] },
+ * or a JSONL session log (message events or bare messages, one per line).
+ */
+function loadTranscript(content: string): CompactionMessage[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed;
+      if (Array.isArray(parsed?.messages)) return parsed.messages;
+    } catch {
+      // Not a single JSON document — fall through to JSONL
+    }
+  }
+
+  const messages: CompactionMessage[] = [];
+  for (const line of trimmed.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line);
+      if (event?.type === 'message' && event.message) messages.push(event.message);
+      else if (typeof event?.role === 'string') messages.push(event);
+    } catch {
+      // Skip malformed lines
+    }
+  }
+  return messages;
+}
+
+async function policies(filePath: string) {
+  log('🧠 hippocampus.md - Lifecycle Policies', COLORS.cyan);
+  console.log('');
+
+  const resolvedPath = resolve(process.cwd(), filePath);
+  if (!existsSync(resolvedPath)) {
+    logError(`File not found: ${resolvedPath}`);
+    process.exit(1);
+  }
+
+  const config = loadConfig(process.cwd());
+  const messages = loadTranscript(readFileSync(resolvedPath, 'utf-8'));
+  if (messages.length === 0) {
+    logError('No messages found in transcript');
+    process.exit(1);
+  }
+
+  logStep(`${messages.length} messages, ${config.classifierRules.length} classifier rules, ${config.lifecyclePolicies.length} policies`);
+  console.log('');
+
+  const scored = scoreMessages(messages, config, undefined, resolveTokenizer(config));
+  for (const entry of scored) {
+    const matched = [...(entry.rule ? [`rule:${entry.rule}`] : []), ...(entry.policies ?? [])].join(', ') || '—';
+    const line = `  #${String(entry.index).padEnd(4)} ${entry.type.padEnd(12)} ${entry.priority.padEnd(8)} r=${entry.retention.toFixed(2)} ${getRetentionTier(entry, config).padEnd(10)} ${matched}`;
+    log(line, entry.policies ? COLORS.reset : COLORS.dim);
+  }
+
+  console.log('');
+  const matchedCount = scored.filter(e => e.policies).length;
+  logSuccess(`${matchedCount} of ${scored.length} entries matched a policy`);
+  console.log('');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SIMULATE COMMAND
+// ═══════════════════════════════════════════════════════════════════════════════
+
+interface SimulateOptions {
+  /** Extra config file layered over the global and workspace configs */
+  config?: string;
+  preset?: string;
+  /** Model id, for tokenizerByModel */
+  model?: string;
+  /** Write the summary (or, for a .json path, the full report) here instead of printing it */
+  out?: string;
+  /** Print the full report as JSON, nothing else */
+  json?: boolean;
+}
+
+/**
+ * Replay a transcript through scoring and the summary builder with the resolved
+ * config, so configs can be tuned without triggering a real compaction.
+ */
+async function simulate(filePath: string, options: SimulateOptions) {
+  const resolvedPath = resolve(process.cwd(), filePath);
+  for (const path of [resolvedPath, ...(options.config ? [resolve(process.cwd(), options.config)] : [])]) {
+    if (!existsSync(path)) {
+      logError(`File not found: ${path}`);
+      process.exit(1);
+    }
+  }
+
+  const env = options.preset ? { ...process.env, HIPPOCAMPUS_PRESET: options.preset } : process.env;
+  const { config, issues } = resolveConfig(process.cwd(), { globalDir: detectPlatform().baseDir, env, configFile: options.config });
+  const presetError = issues.find(({ source, issue }) => source === 'preset' && issue.severity === 'error');
+  if (presetError) {
+    logError(presetError.issue.message.replace(/; available: .*$/, ''));
+    log('   Available presets:', COLORS.dim);
+    printPresets();
+    process.exit(1);
+  }
+
+  const messages = loadTranscript(readFileSync(resolvedPath, 'utf-8'));
+  if (messages.length === 0) {
+    logError('No messages found in transcript');
+    process.exit(1);
+  }
+
+  const result = simulateCompaction(messages, config, resolveTokenizer(config, options.model));
+  const report = {
+    transcript: resolvedPath,
+    preset: config.preset || undefined,
+    tokenizer: result.tokenizer,
+    stats: result.stats,
+    summaryTokens: result.summaryTokens,
+    entries: result.scored.map((entry, i) => ({
+      index: entry.index,
+      id: entry.id,
+      turn: entry.turn,
+      role: entry.role,
+      type: entry.type,
+      priority: entry.priority,
+      importance: Number(entry.importance.toFixed(3)),
+      retention: Number(entry.retention.toFixed(3)),
+      tier: result.tiers[i],
+      tokens: entry.tokenEstimate,
+      policies: entry.policies,
+      preview: entry.contentPreview,
+    })),
+    summary: result.summary,
+  };
+
+  if (options.json) {
+    for (const { source, issue } of issues) console.error(`${source}: ${formatConfigIssue(issue)}`);
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  log('🧠 hippocampus.md - Compaction Simulation', COLORS.cyan);
+  console.log('');
+  for (const { source, issue } of issues) logWarning(`${source}: ${formatConfigIssue(issue)}`);
+  logStep(`${messages.length} messages, preset ${config.preset || '(none)'}, tokenizer ${result.tokenizer}`);
+  if (config.summarizer === 'model') logWarning('The model summarizer needs a session; compressed entries keep their extractive lines');
+  console.log('');
+
+  for (const entry of report.entries) {
+    const preview = entry.preview.replace(/\s+/g, ' ').slice(0, 48);
+    const line = `  #${String(entry.index).padEnd(4)} ${entry.type.padEnd(12)} ${entry.priority.padEnd(8)} i=${entry.importance.toFixed(2)} r=${entry.retention.toFixed(2)} ${entry.tier.padEnd(10)} ${String(entry.tokens).padStart(6)}tok  ${preview}`;
+    log(line, entry.tier === 'sparse' || entry.tier === 'expired' || entry.tier === 'dropped' ? COLORS.dim : COLORS.reset);
+  }
+
+  const { stats } = result;
+  console.log('');
+  logSuccess(`${stats.total} entries → ${stats.sparse} sparse + ${stats.compressed} compressed + ${stats.kept} kept + ${stats.pinned} pinned + ${stats.expired} expired + ${stats.failures} failures + ${stats.dropped} dropped`);
+  logSuccess(`${stats.totalTokens} → ${result.summaryTokens} tokens (${(stats.totalTokens / Math.max(result.summaryTokens, 1)).toFixed(1)}× compression)`);
+  console.log('');
+
+  if (options.out) {
+    const outputPath = resolve(process.cwd(), options.out);
+    writeFileSync(outputPath, extname(outputPath) === '.json' ? JSON.stringify(report, null, 2) : result.summary);
+    logSuccess(`${extname(outputPath) === '.json' ? 'Report' : 'Summary'} written to: ${outputPath}`);
+    console.log('');
+    return;
+  }
+
+  log('─'.repeat(80), COLORS.dim);
+  console.log(result.summary);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONFIG COMMAND
+// ═══════════════════════════════════════════════════════════════════════════════
+
+function printConfigIssues(issues: ConfigIssue[]) {
+  if (issues.length === 0) {
+    logSuccess('valid');
+    return;
+  }
+  for (const issue of issues) {
+    if (issue.severity === 'error') logError(formatConfigIssue(issue));
+    else logWarning(formatConfigIssue(issue));
+  }
+}
+
+/**
+ * Validate one config file, or every layer loadConfig would read:
+ * the global platform config, the workspace config and HIPPOCAMPUS_* variables,
+ * plus the selected preset and conflicts between layers.
+ * Exits with status 1 when any layer has errors.
+ */
+async function configValidate(filePath?: string) {
+  log('🧠 hippocampus.md - Config Validation', COLORS.cyan);
+  console.log('');
+
+  const globalDir = detectPlatform().baseDir;
+  const files = filePath
+    ? [resolve(process.cwd(), filePath)]
+    : [join(globalDir, CONFIG_FILE_NAME), join(process.cwd(), CONFIG_FILE_NAME)];
+  let errors = 0;
+
+  for (const file of files) {
+    if (!existsSync(file)) {
+      if (filePath) {
+        logError(`File not found: ${file}`);
+        process.exit(1);
+      }
+      log(`  ○ ${file} (not found)`, COLORS.dim);
+      continue;
+    }
+    logStep(file);
+    const result = validateConfigText(readFileSync(file, 'utf-8'));
+    printConfigIssues(result.issues);
+    errors += result.issues.filter(i => i.severity === 'error').length;
+  }
+
+  if (!filePath) {
+    const env = readEnvConfig(process.env);
+    if (Object.keys(env).length > 0) {
+      logStep('HIPPOCAMPUS_* environment variables');
+      const result = validateConfig(env);
+      printConfigIssues(result.issues);
+      errors += result.issues.filter(i => i.severity === 'error').length;
+    }
+
+    // Presets and conflicts between layers only show up once the layers are combined
+    const { config, issues } = resolveConfig(process.cwd(), { globalDir });
+    const combined = issues.filter(({ source }) => !files.includes(source) && source !== 'environment');
+    for (const source of new Set(combined.map(({ source }) => source))) {
+      logStep(source === 'preset' ? `Preset "${config.preset}"` : source === 'merged config' ? 'Merged layers' : source);
+      const found = combined.filter(i => i.source === source).map(({ issue }) => issue);
+      printConfigIssues(found);
+      errors += found.filter(i => i.severity === 'error').length;
+    }
+  }
+
+  console.log('');
+  if (errors > 0) {
+    logError(`${errors} error${errors === 1 ? '' : 's'} — the extension ignores these values and uses the layer below`);
+    process.exit(1);
+  }
+  logSuccess('Config is valid');
+  console.log('');
+}
+
+/** Value of --name <value> or --name=<value>: undefined when absent, '' when the value is missing */
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.findIndex(arg => arg === name || arg.startsWith(`${name}=`));
+  if (index === -1) return undefined;
+  const value = args[index] === name ? args[index + 1] : args[index].slice(name.length + 1);
+  return value && !value.startsWith('--') ? value : '';
+}
+
 async function main() {
   const args = process.argv.slice(2);
   const command = args[0] || 'init';
 
   switch (command) {
     case 'init':
-    case 'install':
-      await init();
+    case 'install': {
+      const preset = readFlag(args, '--preset');
+      if (preset === '') {
+        logError('Missing preset name');
+        console.log('Usage: npx hippocampus-md init --preset <name>');
+        printPresets();
+        process.exit(1);
+      }
+      await init(preset);
       break;
+    }
     case 'status':
       await status();
       break;
@@ -434,6 +791,39 @@ async function main() {
       }
       await score(args[1]);
       break;
+    case 'policies':
+      if (!args[1]) {
+        logError('Missing transcript path');
+        console.log('Usage: npx hippocampus-md policies <session.jsonl>');
+        process.exit(1);
+      }
+      await policies(args[1]);
+      break;
+    case 'simulate': {
+      const options: SimulateOptions = { json: args.includes('--json') };
+      for (const flag of ['config', 'preset', 'model', 'out'] as const) {
+        options[flag] = readFlag(args, `--${flag}`);
+        if (options[flag] === '') {
+          logError(`Missing value for --${flag}`);
+          process.exit(1);
+        }
+      }
+      if (!args[1] || args[1].startsWith('--')) {
+        logError('Missing transcript path');
+        console.log('Usage: npx hippocampus-md simulate <session.jsonl> [--config <file>] [--preset <name>] [--model <id>] [--out <file>] [--json]');
+        process.exit(1);
+      }
+      await simulate(args[1], options);
+      break;
+    }
+    case 'config':
+      if (args[1] !== 'validate') {
+        logError(`Unknown config command: ${args[1] ?? '(none)'}`);
+        console.log('Usage: npx hippocampus-md config validate [hippocampus.config.json]');
+        process.exit(1);
+      }
+      await configValidate(args[2]);
+      break;
     case 'help':
     case '--help':
     case '-h':
@@ -442,13 +832,26 @@ async function main() {
 
 Usage:
   npx hippocampus-md init              Install extension (auto-detects Pi/OpenClaw)
+  npx hippocampus-md init --preset <name>
+                                       Install with a preset: aggressive, balanced,
+                                       conservative, coding, research or a team preset
   npx hippocampus-md status            Check installation status
   npx hippocampus-md score <file.md>   Score a memory file
+  npx hippocampus-md policies <file>   Show which lifecycle policy matched each entry
+  npx hippocampus-md simulate <file> [--config <file>] [--preset <name>]
+                    [--model <id>] [--out <file>] [--json]
+                                       Replay a transcript through compaction: per-entry
+                                       scores and the summary (--out file.json: full report)
+  npx hippocampus-md config validate [file]
+                                       Check config files and HIPPOCAMPUS_* variables
   npx hippocampus-md help              Show this help
 
 Examples:
   npx hippocampus-md score memory/2026-02-03.md
   npx hippocampus-md score ~/clawd/memory/today.md
+  npx hippocampus-md policies .pi/sessions/latest.jsonl
+  npx hippocampus-md simulate .pi/sessions/latest.jsonl --preset aggressive --out summary.md
+  npx hippocampus-md config validate
 
 Supported platforms:
   • Pi (~/.pi/)
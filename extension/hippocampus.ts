@@ -22,31 +22,386 @@
  *   Place in <workspace>/.pi/extensions/hippocampus.ts
  *   Or globally: ~/.pi/extensions/hippocampus.ts
  * 
- * Configuration:
- *   Create hippocampus.config.json in your workspace root (optional)
+ * Configuration (all optional, later layers win):
+ *   ~/.pi/hippocampus.config.json (or ~/.openclaw, ~/.clawdbot) → global
+ *   <workspace>/hippocampus.config.json                           → workspace
+ *   HIPPOCAMPUS_* environment variables                           → overrides
  */
 
-import type { ExtensionAPI, CompactionEvent, ExtensionContext, CompactionResult } from "@mariozechner/pi-coding-agent";
-import { appendFileSync, existsSync, readFileSync } from "node:fs";
-import { join } from "node:path";
+import type {
+  ExtensionAPI,
+  CompactionEvent,
+  ExtensionContext,
+  CompactionResult,
+  ToolResult,
+  TurnEndEvent,
+} from "@mariozechner/pi-coding-agent";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, watch, writeFileSync, type FSWatcher } from "node:fs";
+import { createHash } from "node:crypto";
+import { homedir } from "node:os";
+import { basename, dirname, isAbsolute, join } from "node:path";
+import { fileURLToPath } from "node:url";
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════════
 
-/** Message classification types based on role and content */
-type EntryType = 
+/** Message classification types recognized by the built-in heuristics */
+type BuiltinEntryType = 
   | "tool_result"   // Output from tool calls — decays fast
+  | "error"         // Failed commands, stack traces, is_error results — persists long
   | "decision"      // Agent decisions and plans — persists long
   | "user_intent"   // User goals and requests — persists long
   | "ephemeral"     // Heartbeats, status checks — decays very fast
   | "context"       // General conversation — standard decay
   | "unknown";      // Unclassified — moderate decay
 
+/** A built-in type, or a custom type declared in config.customTypes */
+type EntryType = BuiltinEntryType | (string & {});
+
+/** Selectable decay curves */
+type DecayFunctionName = "exponential" | "power_law" | "linear" | "step";
+
+/**
+ * What "age" means for decay:
+ * - message: messages since this one (the original behavior)
+ * - turn:    user turns since this one; a turn is a user message plus every reply and tool call it triggers
+ * - time:    wall-clock time since this one, in timeUnitMinutes (falls back to turns without timestamps)
+ */
+type AgeMode = "message" | "turn" | "time";
+
+/** Decay curve: maps a rate and an age to a multiplier (1.0 = no decay) */
+type DecayFunction = (rate: number, age: number) => number;
+
+/** How aggressively an entry is compressed in the summary */
+type CompressionMode = "none" | "normal" | "aggressive";
+
+/** Match clause of a lifecycle policy — every present field must match */
+interface LifecyclePolicyMatch {
+  /** Entry type: fine-grained (decision, tool_result, …) or normative (message, state, …) */
+  type?: string | string[];
+  /** Case-insensitive substrings; any one matching is enough */
+  contains?: string | string[];
+  /** Tool name for tool results, message.<role> otherwise */
+  "source.type"?: string | string[];
+  /** Priority as assigned before this policy runs */
+  priority?: Priority | Priority[];
+  /** Message role */
+  role?: string | string[];
+}
+
+/** Action clause of a lifecycle policy (whitepaper §10) */
+interface LifecyclePolicyAction {
+  /** Overrides the per-type decay rate */
+  decay_rate?: number;
+  /** Keep in the sparse index forever and flag for MEMORY.md consolidation */
+  persist?: boolean;
+  /** Overrides the assigned priority */
+  priority?: Priority;
+  /** Hard expiry: entries at least this many turns old are dropped from the summary */
+  expires_after_turns?: number;
+  /** none = always keep in full, aggressive = always reduce to a pointer */
+  compression?: CompressionMode;
+}
+
+/** Declarative lifecycle rule */
+interface LifecyclePolicy {
+  /** Name shown in logs and `hippocampus-md policies`. Default: policy[<index>] */
+  name?: string;
+  match: LifecyclePolicyMatch;
+  action: LifecyclePolicyAction;
+}
+
+/** Combined effect of all policies that matched an entry */
+interface PolicyOutcome {
+  /** Names of matched policies, in evaluation order */
+  policies: string[];
+  priority?: Priority;
+  decayRate?: number;
+  persist?: boolean;
+  expiresAfterTurns?: number;
+  compression?: CompressionMode;
+}
+
+/** Per-entry overrides applied on top of the per-type decay settings */
+interface RetentionModifiers {
+  priority?: Priority;
+  encoding?: Encoding;
+  /** Replaces config.decayRates[type] */
+  decayRate?: number;
+}
+
+/** Match clause of a classifier rule — every present field must match */
+interface ClassifierRuleMatch {
+  /** Message role (user, assistant, tool, toolResult, …) */
+  role?: string | string[];
+  /** Tool name of a tool result or call, case-insensitive */
+  toolName?: string | string[];
+  /** Type of any content block (text, toolCall, tool_use, image, …) */
+  blockType?: string | string[];
+  /** Regular expression tested against the message text */
+  pattern?: string;
+  /** Flags for pattern. Default: "i" */
+  flags?: string;
+  /** Minimum message text length in characters */
+  minLength?: number;
+  /** Maximum message text length in characters */
+  maxLength?: number;
+}
+
+/** Ordered classifier rule: the first rule that matches assigns its type */
+interface ClassifierRule {
+  /** Name shown in `hippocampus-md policies`. Default: rule[<index>] */
+  name?: string;
+  match: ClassifierRuleMatch;
+  /** Resulting entry type: built-in or declared in customTypes */
+  type: EntryType;
+}
+
+/** Scoring profile of a custom entry type; unset fields come from the type it extends */
+interface CustomEntryType {
+  /** Built-in type whose behavior and defaults this type inherits. Default: "unknown" */
+  extends?: BuiltinEntryType;
+  /** Base importance (0.0-1.0) */
+  importance?: number;
+  /** Decay rate (λ) */
+  decayRate?: number;
+  /** Minimum retention floor */
+  floor?: number;
+  /** Default priority */
+  priority?: Priority;
+}
+
+/** Separate rules file (classifierRulesFile): a bare rule array, or rules plus types */
+interface ClassifierRulesFile {
+  rules?: ClassifierRule[];
+  types?: Record<string, CustomEntryType>;
+}
+
+/** Result of running the classifier pipeline on one message */
+interface Classification {
+  type: EntryType;
+  /** Built-in type the result behaves like (equals type for built-in types) */
+  baseType: BuiltinEntryType;
+  /** Name of the rule that assigned the type; undefined when the built-in heuristics did */
+  rule?: string;
+}
+
+/**
+ * Which part of a tool's output the summary shows:
+ * head (the start), tail (the end, where errors and exit codes are),
+ * head_tail (both ends), or pointer (always a sparse index line)
+ */
+type SummarizeMode = "head" | "tail" | "head_tail" | "pointer";
+
+/** Per-tool scoring profile for tool results (matched by tool name, like policies' source.type) */
+interface ToolProfile {
+  /** Decay rate (λ) for this tool's results */
+  decayRate?: number;
+  /** Base importance (0.0-1.0) */
+  importance?: number;
+  /** Whether re-running the tool reproduces its output; false = archived even while kept */
+  retrievable?: boolean;
+  /** How the output is previewed in the summary. Default: "head" */
+  summarize?: SummarizeMode;
+}
+
+/** One tool call as requested by the assistant */
+interface ToolCallInfo {
+  /** Call id (toolCall/tool_use block id, or OpenAI tool_calls[].id) */
+  id?: string;
+  name: string;
+  /** Parsed arguments */
+  arguments: unknown;
+}
+
+/** Link from a tool result to the call that produced it */
+interface ToolCallRef {
+  /** Index of the assistant message holding the call */
+  index: number;
+  id?: string;
+  name: string;
+  /** Key argument (path, command, pattern, …), shortened for display */
+  args?: string;
+}
+
+/** Tool calls matched to their results across a transcript */
+interface ToolPairing {
+  /** Result message index → originating call */
+  calls: Map<number, ToolCallRef>;
+  /** Call message index → result message indices */
+  results: Map<number, number[]>;
+  /** Call messages whose every call has a result */
+  answered: Set<number>;
+}
+
+/** Test run counts parsed from runner output */
+interface TestCounts {
+  passed?: number;
+  failed?: number;
+  skipped?: number;
+}
+
+/** Structured facts pulled out of a tool result (whitepaper §5 key_data) */
+interface KeyData {
+  /** Test runner pass/fail counts */
+  tests?: TestCounts;
+  /** File paths, with :line suffixes when present */
+  paths?: string[];
+  /** http(s) URLs */
+  urls?: string[];
+  /** Git commit SHAs */
+  shas?: string[];
+  /** UUIDs and long hashes */
+  ids?: string[];
+  /** Element refs from accessibility snapshots, keyed by label */
+  refs?: Record<string, string>;
+  /** Labeled numbers ("users: 19"), keyed by snake_case label */
+  values?: Record<string, number | string>;
+  /** Top-level keys of a JSON object, with short scalar values */
+  json?: Record<string, string | number | boolean | null>;
+}
+
+/** Built-in summarizers for compressed entries ("none" keeps plain summary lines) */
+type SummarizerName = "extractive" | "model" | "none";
+
+/** One compressed entry to be summarized */
+interface SummaryRequest {
+  /** Entry id, echoed back by model summarizers */
+  id: string;
+  type: EntryType;
+  /** Where the content came from: tool call, tool name or role */
+  label: string;
+  /** Full original content */
+  text: string;
+  /** Token budget for the summary */
+  maxTokens: number;
+}
+
+/**
+ * Produces abstractive or extractive summaries for compressed entries.
+ * Returns one summary per request, in order; undefined leaves the entry's plain line.
+ */
+interface Summarizer {
+  name: string;
+  summarize(requests: SummaryRequest[], signal?: AbortSignal): Promise<(string | undefined)[]>;
+}
+
+/** Identifiers mentioned by each message, and where each identifier is mentioned */
+interface ReferenceIndex {
+  /** Per message index: identifiers it mentions */
+  identifiers: Set<string>[];
+  /** Identifier → indices of the messages mentioning it, ascending */
+  mentions: Map<string, number[]>;
+}
+
+/** Why two entries are associated */
+type AssociationReason = "tool_call" | "path" | "similarity";
+
+/** Edge of the association graph */
+interface Association {
+  /** Index of the associated message */
+  index: number;
+  /** Link strength (0.0-1.0) */
+  weight: number;
+  reason: AssociationReason;
+}
+
+/** Content shape that decides how a preview is generated */
+type ContentKind = "prose" | "code" | "json" | "log" | "diff";
+
+/** Where an entry lands in the summary */
+type RetentionTier = "pinned" | "kept" | "compressed" | "sparse" | "expired";
+
+/** Tier chosen by the summary budget allocator (dropped = left out, still archived) */
+type SummaryTier = RetentionTier | "dropped";
+
+/** Where an entry ends up in the summary: its tier, or a Known Failures line */
+type PlannedTier = SummaryTier | "failure";
+
+/** Where every entry ends up in one summary, decided before it is rendered */
+interface SummaryPlan {
+  goals: string[];
+  /** Known Failures lines, identical failures merged */
+  failureLines: string[];
+  /** Entries listed under Known Failures */
+  failures: ScoredEntry[];
+  /** Entries rendered in tier sections, with their digests */
+  entries: ScoredEntry[];
+  /** Final tier of each of `entries`, after the budget and the sparse index cap */
+  tiers: SummaryTier[];
+}
+
+/** When something was last touched, in log turns (see AccessLog.turn) */
+interface AccessRecord {
+  /** Log turn of the most recent access */
+  turn: number;
+  /** Wall-clock time of the most recent access (epoch ms) */
+  at: number;
+  /** Number of turns it was accessed in */
+  count: number;
+}
+
+/**
+ * Persisted record of what the agent re-read, quoted or re-ran.
+ * Cues are matched against entry content at compaction time; ids come from recall.
+ */
+interface AccessLog {
+  version: number;
+  /** Session the log belongs to; another session starts a fresh log */
+  session?: string;
+  /** User turns since the log was created, counted like segmentTurns (one per prompt) */
+  turn: number;
+  /** Access cues (paths, commands, quoted text) */
+  cues: Record<string, AccessRecord>;
+  /** Entry ids restored via hippocampus_recall */
+  ids: Record<string, AccessRecord>;
+}
+
+/** Counts tokens the way a model's tokenizer would */
+interface Tokenizer {
+  /** Encoding name, e.g. "cl100k_base" or "heuristic" */
+  name: string;
+  count(text: string): number;
+}
+
+/**
+ * tiktoken-style rank file, as shipped in extension/tokenizers/<name>.json.
+ * bpe_ranks holds lines of "<marker> <first rank> <base64 token> <base64 token> …",
+ * each token ranked one above the previous.
+ */
+interface BpeRankFile {
+  name?: string;
+  pat_str: string;
+  special_tokens?: Record<string, number>;
+  bpe_ranks: string;
+}
+
 /** Configuration schema for hippocampus behavior */
 interface HippocampusConfig {
-  /** Per-type exponential decay rates (λ). Lower = remembers longer. */
-  decayRates: Record<EntryType, number>;
+  /** Set false to load the extension without registering any hooks. Default: true */
+  enabled: boolean;
+  
+  /** Re-load config files when they change, without restarting the agent. Default: true */
+  hotReload: boolean;
+  
+  /** Named preset applied over the defaults; every explicit setting overrides it. Default: "" (none) */
+  preset: string;
+  
+  /** Team presets file (relative to workspace or absolute) */
+  presetsFile: string;
+  
+  /** Per-type decay rates (λ). Lower = remembers longer. */
+  decayRates: Record<BuiltinEntryType, number> & Partial<Record<string, number>>;
+  
+  /** Decay curve applied to every entry. Default: "exponential" */
+  decayFunction: DecayFunctionName;
+  
+  /** How age is measured for decay. Default: "turn" */
+  ageMode: AgeMode;
+  
+  /** Minutes counted as one unit of age when ageMode is "time". Default: 5 */
+  timeUnitMinutes: number;
   
   /** Retention threshold for sparse index (pointer only). Default: 0.25 */
   sparseThreshold: number;
@@ -57,6 +412,33 @@ interface HippocampusConfig {
   /** Minimum retention floor per type (anchors important types) */
   retentionFloor: Partial<Record<EntryType, number>>;
   
+  /** Default priority per type (entries without a marker or inline tag) */
+  priorityByType: Partial<Record<EntryType, Priority>>;
+  
+  /** Content markers that assign a priority to user/assistant messages */
+  priorityMarkers: Partial<Record<Priority, string[]>>;
+  
+  /** Ordered lifecycle policies; every matching policy applies, later ones win */
+  lifecyclePolicies: LifecyclePolicy[];
+  
+  /** Ordered classifier rules; the first match wins, the built-in heuristics classify the rest */
+  classifierRules: ClassifierRule[];
+  
+  /** Extra rules and types, appended after classifierRules (relative to workspace or absolute) */
+  classifierRulesFile: string;
+  
+  /** Custom entry types assignable by classifier rules */
+  customTypes: Record<string, CustomEntryType>;
+  
+  /** Per-tool profiles for tool_result entries; keys are tool names with * wildcards */
+  toolProfiles: Record<string, ToolProfile>;
+  
+  /**
+   * Total token budget for the summary. When > 0, entries are promoted/demoted
+   * between kept/compressed/sparse by retention-per-token to fit. Default: 0 (thresholds only)
+   */
+  targetSummaryTokens: number;
+  
   /** Maximum tokens allocated for sparse index section */
   maxSparseIndexTokens: number;
   
@@ -65,18 +447,137 @@ interface HippocampusConfig {
   
   /** Log file path (relative to workspace or absolute) */
   logFile: string;
+  
+  /** Sparse index archive path (relative to workspace or absolute) */
+  indexFile: string;
+  
+  /** Maximum archived entries kept in the sparse index (oldest evicted first) */
+  maxIndexEntries: number;
+  
+  /** Token budget cap for a single hippocampus_recall result */
+  recallMaxTokens: number;
+  
+  /** Access log path, used to reset decay for re-read entries (relative to workspace or absolute) */
+  accessFile: string;
+  
+  /** Tokenizer for token accounting: a rank file name in tokenizerDir, or "heuristic". Default: "cl100k_base" */
+  tokenizer: string;
+  
+  /** Per-model tokenizer overrides; keys are model ids with * wildcards, first match wins */
+  tokenizerByModel: Record<string, string>;
+  
+  /** Directory with <name>.json rank files. Default: "" (the tokenizers/ directory bundled with the extension) */
+  tokenizerDir: string;
+  
+  /** How much of an associated entry's retention carries over (0 = no association bonus) */
+  associationStrength: number;
+  
+  /** Minimum content similarity (cosine, 0-1) for two entries to be associated */
+  associationThreshold: number;
+  
+  /** Summarizer for compressed entries: "extractive" (default), "model" (the host agent's model) or "none" */
+  summarizer: SummarizerName;
+  
+  /** Model for the "model" summarizer as "provider/id". Default: "" (the session's active model) */
+  summarizerModel: string;
+  
+  /** Token budget for each compressed entry's summary */
+  summaryMaxTokens: number;
+  
+  /** Give up on the summarizer after this many milliseconds and keep plain lines */
+  summarizerTimeoutMs: number;
+}
+
+/** One problem found while validating a config file */
+interface ConfigIssue {
+  /** error = the value is ignored; warning = an unknown or legacy key */
+  severity: "error" | "warning";
+  /** Location of the value, e.g. decayRates.decision ("" for the whole file) */
+  path: string;
+  message: string;
+  /** Closest known key, for unknown keys that look like a typo */
+  suggestion?: string;
+}
+
+/** Result of validateConfig */
+interface ConfigValidationResult {
+  /** No errors (warnings allowed) */
+  valid: boolean;
+  issues: ConfigIssue[];
+  /** The migrated input with invalid values and unknown keys removed */
+  config: Partial<HippocampusConfig>;
+}
+
+/** Named partial config (built-in or from a team presets file) */
+interface ConfigPreset {
+  /** One line on when to use it */
+  description: string;
+  /** Preset applied first; this one's settings override it */
+  extends?: string;
+  /** Settings over the defaults (or the extended preset) */
+  config: Partial<HippocampusConfig>;
+}
+
+/** One effective setting that differs between two configs */
+interface ConfigChange {
+  /** Top-level key, or key.entry for per-key maps such as decayRates */
+  path: string;
+  from: unknown;
+  to: unknown;
 }
 
 /** Scored message entry with retention calculation */
 interface ScoredEntry {
+  /** Stable entry id (content hash), used as the sparse index key */
+  id: string;
   /** Original index in message array */
   index: number;
+  /** Conversation turn the message belongs to (0 = first) */
+  turn: number;
   /** Classified type */
   type: EntryType;
+  /** Built-in type a custom type behaves like (unset for built-in types) */
+  baseType?: BuiltinEntryType;
+  /** Classifier rule that assigned the type */
+  rule?: string;
   /** Base importance score (0.0-1.0) */
   importance: number;
   /** Retention after decay (0.0-1.0) */
   retention: number;
+  /** Decay priority (critical entries never decay) */
+  priority: Priority;
+  /** Manual when set by an inline hippocampus tag */
+  encoding: Encoding;
+  /** Global turn this entry was last re-read, quoted or recalled (see AccessLog) */
+  lastAccess?: number;
+  /** Later messages mentioning this entry's identifiers (see findReferences) */
+  references?: number;
+  /** Ids of associated entries (see buildAssociationGraph) */
+  associations?: string[];
+  /** Lifecycle policies that matched this entry */
+  policies?: string[];
+  /** Decay rate override from a lifecycle policy or tool profile */
+  decayRate?: number;
+  /** Flagged for persistence by a lifecycle policy */
+  persist?: boolean;
+  /** Hard expiry from a lifecycle policy (turns) */
+  expiresAfterTurns?: number;
+  /** True once the entry is older than its hard expiry */
+  expired?: boolean;
+  /** Compression override from a lifecycle policy or tool profile */
+  compression?: CompressionMode;
+  /** Preview mode from the tool profile (unset = head) */
+  summarize?: SummarizeMode;
+  /** Tool call that produced this result */
+  call?: ToolCallRef;
+  /** Indices of the results answering this message's tool calls */
+  results?: number[];
+  /** Pure tool-call message rendered through its results' summary lines */
+  merged?: boolean;
+  /** Facts extracted from tool output, kept on compressed and sparse lines */
+  keyData?: KeyData;
+  /** Summary from the configured summarizer, shown under the compressed line */
+  digest?: string;
   /** Estimated token count */
   tokenEstimate: number;
   /** Generated summary line for sparse index */
@@ -87,6 +588,146 @@ interface ScoredEntry {
   contentPreview: string;
 }
 
+/** What one compaction did with the session, by the tier each entry ends up in */
+interface CompactionStats {
+  total: number;
+  sparse: number;
+  compressed: number;
+  kept: number;
+  pinned: number;
+  expired: number;
+  /** Left out of the summary by the budget or the sparse index cap (still archived) */
+  dropped: number;
+  /** Listed under Known Failures */
+  failures: number;
+  /** Entries classified as (or behaving like) errors */
+  errors: number;
+  /** Entries matched by at least one lifecycle policy */
+  policyMatches: number;
+  /** Entries reinforced by an access log record */
+  reinforced: number;
+  /** Estimated tokens of the messages before compaction */
+  totalTokens: number;
+}
+
+/** Result of replaying a transcript through scoring and the summary builder */
+interface CompactionSimulation {
+  scored: ScoredEntry[];
+  /** Where each of `scored` ends up in the summary */
+  tiers: PlannedTier[];
+  stats: CompactionStats;
+  summary: string;
+  summaryTokens: number;
+  /** Name of the tokenizer the estimates were made with */
+  tokenizer: string;
+}
+
+/** Normative entry type (whitepaper §14.1) — coarser than EntryType */
+type HippocampusEntryType = "tool_result" | "message" | "state" | "memory";
+
+/** Per-entry priority (whitepaper §5.2) */
+type Priority = "critical" | "high" | "normal" | "low";
+
+/** How an entry was encoded — manual entries decay slower */
+type Encoding = "manual" | "auto";
+
+/** Normative index entry (whitepaper §14.1) */
+interface HippocampusEntry {
+  /** Unique identifier */
+  id: string;
+  type: HippocampusEntryType;
+  source: {
+    /** How to re-fetch (tool name, or message.<role>) */
+    type: string;
+    /** External reference (sparse index key) */
+    ref: string;
+    /** Turn when captured */
+    turn: number;
+    /** Can pattern-complete? */
+    retrievable: boolean;
+  };
+  /** Human + LLM readable */
+  summary: string;
+  /** Extracted critical values */
+  key_data?: Record<string, unknown>;
+  /** Current strength (0.0-1.0) */
+  strength: number;
+  decay: {
+    /** Strength loss per turn */
+    rate: number;
+    /** Minimum strength */
+    floor: number;
+    /** Turn of last access */
+    last_access: number;
+  };
+  modifiers: {
+    priority: Priority;
+    encoding: Encoding;
+    /** Related entry ids */
+    associations: string[];
+  };
+  lifecycle: {
+    /** Turn created */
+    created: number;
+    /** Hard expiration turn */
+    expires?: number;
+    /** Write to MEMORY.md on consolidation? */
+    persist: boolean;
+  };
+}
+
+/** Result of validating an unknown value against the HippocampusEntry schema */
+interface EntryValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/** Archived sparse/compressed entry: the normative entry plus its original content */
+interface SparseIndexRecord extends HippocampusEntry {
+  /** Fine-grained classification at archive time */
+  category: EntryType;
+  /** Original message role */
+  role: string;
+  /** Tool name for tool results */
+  toolName?: string;
+  /** Estimated token count of the original content */
+  tokenEstimate: number;
+  /** Full original message content */
+  content: string;
+  /** ISO timestamp of first archive */
+  createdAt: string;
+  /** ISO timestamp of most recent archive */
+  updatedAt: string;
+}
+
+/** On-disk sparse index (hippocampus-index.json) */
+interface SparseIndex {
+  version: number;
+  updatedAt: string;
+  entries: Record<string, SparseIndexRecord>;
+}
+
+/** Query accepted by the recall tool */
+interface RecallQuery {
+  /** Exact entry id (ctx_…), with or without the [ref:…] wrapper */
+  id?: string;
+  /** Free-text cue matched against archived summaries and content */
+  cue?: string;
+  /** Token budget for returned content (capped by config.recallMaxTokens) */
+  maxTokens?: number;
+}
+
+/** Single recalled entry */
+interface RecallMatch {
+  record: SparseIndexRecord;
+  /** Cue match score (1 for id lookups) */
+  score: number;
+  /** Content returned within the token budget */
+  content: string;
+  /** True when content was cut to fit the budget */
+  truncated: boolean;
+}
+
 /** Message structure from Pi compaction event */
 interface CompactionMessage {
   role?: string;
@@ -96,14 +737,30 @@ interface CompactionMessage {
   toolName?: string;
   name?: string;
   tool_call_id?: string;
+  /** Id of the call a Pi toolResult answers */
+  toolCallId?: string;
+  /** Pi toolResult failure flag */
+  isError?: boolean;
+  /** OpenAI-style failure flag */
+  is_error?: boolean;
+  /** Epoch milliseconds or an ISO 8601 string */
+  timestamp?: number | string;
 }
 
 /** Content block types */
 interface ContentBlock {
   type?: string;
+  /** Tool call id (Pi toolCall, Anthropic tool_use) */
+  id?: string;
   text?: string;
   name?: string;
   tool_use_id?: string;
+  /** Anthropic tool_result failure flag */
+  is_error?: boolean;
+  /** Tool call arguments (Anthropic tool_use) */
+  input?: unknown;
+  /** Tool call arguments (Pi toolCall) */
+  arguments?: unknown;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -111,319 +768,3431 @@ interface ContentBlock {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 const DEFAULT_CONFIG: HippocampusConfig = {
+  enabled: true,
+  hotReload: true,
+  preset: "",
+  presetsFile: "hippocampus.presets.json",
   decayRates: {
     decision:    0.03,   // Decisions persist ~30× longer than tool_results
     user_intent: 0.05,   // User goals persist ~20× longer
     context:     0.12,   // General context — standard decay
     tool_result: 0.20,   // Tool outputs decay fast (often large, rarely reused)
+    error:       0.04,   // Failures persist — "we already tried that" is easy to forget
     ephemeral:   0.35,   // Heartbeats/status — decay very fast
     unknown:     0.15,   // Unknown — moderate decay
   },
+  decayFunction: "exponential",
+  ageMode: "turn",
+  timeUnitMinutes: 5,
   sparseThreshold: 0.25,
   compressThreshold: 0.65,
   retentionFloor: {
     decision:    0.50,   // Decisions never drop below 0.50
     user_intent: 0.35,   // User goals never drop below 0.35
+    error:       0.30,   // Known failures stay above the sparse threshold
+  },
+  priorityByType: {
+    ephemeral:   "low",  // Heartbeats decay twice as fast
+  },
+  priorityMarkers: {
+    high: ["remember:", "important:", "запомни:", "важно:"],
+  },
+  lifecyclePolicies: [],
+  classifierRules: [],
+  classifierRulesFile: "hippocampus.rules.json",
+  customTypes: {},
+  toolProfiles: {
+    read:  { decayRate: 0.25, importance: 0.30, retrievable: true,  summarize: "head" },     // Re-readable on demand
+    grep:  { decayRate: 0.30, importance: 0.25, retrievable: true,  summarize: "head" },     // Re-runnable search
+    bash:  { decayRate: 0.20, importance: 0.35, retrievable: false, summarize: "tail" },     // Errors and exit codes come last
+    write: { decayRate: 0.10, importance: 0.50, retrievable: true,  summarize: "pointer" },  // The change matters, not the echo
+    edit:  { decayRate: 0.10, importance: 0.50, retrievable: true,  summarize: "pointer" },
   },
+  targetSummaryTokens: 0,
   maxSparseIndexTokens: 2500,
   debug: false,
   logFile: ".pi/hippocampus.log",
+  indexFile: ".pi/hippocampus-index.json",
+  maxIndexEntries: 5000,
+  recallMaxTokens: 4000,
+  accessFile: ".pi/hippocampus-access.json",
+  tokenizer: "cl100k_base",
+  tokenizerByModel: {},
+  tokenizerDir: "",
+  associationStrength: 0.8,
+  associationThreshold: 0.35,
+  summarizer: "extractive",
+  summarizerModel: "",
+  summaryMaxTokens: 60,
+  summarizerTimeoutMs: 30000,
 };
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// CONFIGURATION LOADER
+// CONFIGURATION SCHEMA
 // ═══════════════════════════════════════════════════════════════════════════════
 
+/** The subset of JSON Schema (draft-07) that CONFIG_SCHEMA uses and checkSchema understands */
+interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+}
+
+/** summarizerModel: empty, or "provider/id" */
+const MODEL_REF_PATTERN = /^(?:[^/\s]+\/\S+)?$/;
+const PRIORITY_SCHEMA: JsonSchema = { enum: ["critical", "high", "normal", "low"] };
+const STRING_LIST_SCHEMA: JsonSchema = { type: ["string", "array"], items: { type: "string" } };
+
 /**
- * Load configuration from workspace or use defaults.
- * Looks for hippocampus.config.json in workspace root.
+ * JSON Schema of hippocampus.config.json, shipped as hippocampus.config.schema.json.
+ * Values are checked on load; cross-field rules (sparse < compress) live in checkConfigConstraints.
  */
-function loadConfig(workspaceDir: string): HippocampusConfig {
-  const configPath = join(workspaceDir, "hippocampus.config.json");
-  
-  if (existsSync(configPath)) {
-    try {
-      const raw = readFileSync(configPath, "utf-8");
-      const userConfig = JSON.parse(raw) as Partial<HippocampusConfig>;
-      return {
-        ...DEFAULT_CONFIG,
-        ...userConfig,
-        decayRates: { ...DEFAULT_CONFIG.decayRates, ...userConfig.decayRates },
-        retentionFloor: { ...DEFAULT_CONFIG.retentionFloor, ...userConfig.retentionFloor },
-      };
-    } catch (err) {
-      console.warn(`[hippocampus] Failed to load config from ${configPath}:`, err);
+const CONFIG_SCHEMA: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "hippocampus.md configuration",
+  type: "object",
+  additionalProperties: false,
+  definitions: {
+    rate: { type: "number", minimum: 0, description: "Decay rate (λ); higher decays faster" },
+    unit: { type: "number", minimum: 0, maximum: 1 },
+    priority: PRIORITY_SCHEMA,
+    builtinType: { enum: ["decision", "user_intent", "context", "tool_result", "error", "ephemeral", "unknown"] },
+    customType: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        extends: { $ref: "#/definitions/builtinType" },
+        importance: { $ref: "#/definitions/unit" },
+        decayRate: { $ref: "#/definitions/rate" },
+        floor: { $ref: "#/definitions/unit" },
+        priority: { $ref: "#/definitions/priority" },
+      },
+    },
+    toolProfile: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        decayRate: { $ref: "#/definitions/rate" },
+        importance: { $ref: "#/definitions/unit" },
+        retrievable: { type: "boolean" },
+        summarize: { enum: ["head", "tail", "head_tail", "pointer"] },
+      },
+    },
+    lifecyclePolicy: {
+      type: "object",
+      additionalProperties: false,
+      required: ["match", "action"],
+      properties: {
+        name: { type: "string" },
+        match: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            type: STRING_LIST_SCHEMA,
+            contains: STRING_LIST_SCHEMA,
+            "source.type": STRING_LIST_SCHEMA,
+            priority: { anyOf: [PRIORITY_SCHEMA, { type: "array", items: PRIORITY_SCHEMA }] },
+            role: STRING_LIST_SCHEMA,
+          },
+        },
+        action: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            decay_rate: { $ref: "#/definitions/rate" },
+            persist: { type: "boolean" },
+            priority: { $ref: "#/definitions/priority" },
+            expires_after_turns: { type: "integer", minimum: 0 },
+            compression: { enum: ["none", "normal", "aggressive"] },
+          },
+        },
+      },
+    },
+    classifierRule: {
+      type: "object",
+      additionalProperties: false,
+      required: ["match", "type"],
+      properties: {
+        name: { type: "string" },
+        match: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            role: STRING_LIST_SCHEMA,
+            toolName: STRING_LIST_SCHEMA,
+            blockType: STRING_LIST_SCHEMA,
+            pattern: { type: "string" },
+            flags: { type: "string" },
+            minLength: { type: "integer", minimum: 0 },
+            maxLength: { type: "integer", minimum: 0 },
+          },
+        },
+        type: { type: "string", minLength: 1 },
+      },
+    },
+  },
+  properties: {
+    $schema: { type: "string" },
+    enabled: { type: "boolean", description: "false loads the extension without registering any hooks" },
+    hotReload: { type: "boolean", description: "Re-load config files when they change" },
+    preset: {
+      type: "string",
+      description: "Named preset applied over the defaults: aggressive, balanced, conservative, coding, research, or a team preset",
+    },
+    presetsFile: { type: "string", description: "Team presets file, relative to the workspace" },
+    decayRates: { type: "object", additionalProperties: { $ref: "#/definitions/rate" }, description: "Decay rate (λ) per entry type" },
+    decayFunction: { enum: ["exponential", "power_law", "linear", "step"] },
+    ageMode: { enum: ["message", "turn", "time"] },
+    timeUnitMinutes: { type: "number", exclusiveMinimum: 0 },
+    sparseThreshold: { $ref: "#/definitions/unit", description: "Below this retention → pointer only" },
+    compressThreshold: { $ref: "#/definitions/unit", description: "Below this retention → compressed" },
+    retentionFloor: { type: "object", additionalProperties: { $ref: "#/definitions/unit" }, description: "Minimum retention per type" },
+    priorityByType: { type: "object", additionalProperties: { $ref: "#/definitions/priority" } },
+    priorityMarkers: {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        critical: { type: "array", items: { type: "string" } },
+        high: { type: "array", items: { type: "string" } },
+        normal: { type: "array", items: { type: "string" } },
+        low: { type: "array", items: { type: "string" } },
+      },
+    },
+    lifecyclePolicies: { type: "array", items: { $ref: "#/definitions/lifecyclePolicy" } },
+    classifierRules: { type: "array", items: { $ref: "#/definitions/classifierRule" } },
+    classifierRulesFile: { type: "string" },
+    customTypes: { type: "object", additionalProperties: { $ref: "#/definitions/customType" } },
+    toolProfiles: { type: "object", additionalProperties: { $ref: "#/definitions/toolProfile" } },
+    targetSummaryTokens: { type: "integer", minimum: 0, description: "Total summary budget; 0 = thresholds only" },
+    maxSparseIndexTokens: { type: "integer", minimum: 0 },
+    debug: { type: "boolean" },
+    logFile: { type: "string" },
+    indexFile: { type: "string" },
+    maxIndexEntries: { type: "integer", minimum: 0 },
+    recallMaxTokens: { type: "integer", minimum: 1 },
+    accessFile: { type: "string" },
+    tokenizer: { type: "string" },
+    tokenizerByModel: { type: "object", additionalProperties: { type: "string" } },
+    tokenizerDir: { type: "string" },
+    associationStrength: { $ref: "#/definitions/unit" },
+    associationThreshold: { $ref: "#/definitions/unit" },
+    summarizer: { enum: ["extractive", "model", "none"] },
+    summarizerModel: {
+      type: "string",
+      pattern: MODEL_REF_PATTERN.source,
+      description: "provider/id of the model summarizer's model, e.g. anthropic/claude-haiku-4-5; empty = the session's model",
+    },
+    summaryMaxTokens: { type: "integer", minimum: 1 },
+    summarizerTimeoutMs: { type: "integer", minimum: 1 },
+  },
+};
+
+/** Keys written by earlier `hippocampus-md init` versions and their canonical replacements */
+const LEGACY_CONFIG_KEYS: Record<string, string> = {
+  decay: "decayRates",
+  retention: "sparseThreshold/compressThreshold",
+  logPath: "logFile",
+  sparseIndex: "indexFile",
+};
+
+/** Marks a value that failed validation and is left out of the checked config */
+const INVALID = Symbol("invalid");
+
+/** Levenshtein distance, for "did you mean" suggestions */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
     }
+    previous = current;
   }
-  
-  return DEFAULT_CONFIG;
+  return previous[b.length];
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// MESSAGE CLASSIFICATION
-// ═══════════════════════════════════════════════════════════════════════════════
+/** Closest known key to a misspelled one, if it is close enough to be a typo */
+function suggestKey(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(key.length / 3)) ? best : undefined;
+}
 
-/**
- * Extract text content from a message, handling various formats.
- */
-function extractContent(msg: CompactionMessage): string {
-  if (typeof msg.content === "string") return msg.content;
-  if (Array.isArray(msg.content)) {
-    return msg.content
-      .map((block) => block.text || "")
-      .filter(Boolean)
-      .join(" ");
+/** Path of a nested config value: lifecyclePolicies[0].match["source.type"] */
+function formatConfigPath(path: (string | number)[]): string {
+  return path.reduce<string>((out, segment) => {
+    if (typeof segment === "number") return `${out}[${segment}]`;
+    if (!/^[A-Za-z_$][\w$]*$/.test(segment)) return `${out}[${JSON.stringify(segment)}]`;
+    return out ? `${out}.${segment}` : segment;
+  }, "");
+}
+
+function describeSchema(schema: JsonSchema): string {
+  if (schema.enum) return `one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type ?? "value"];
+  return types.map((type) => (type === "integer" || type === "array" || type === "object" ? `an ${type}` : `a ${type}`)).join(" or ");
+}
+
+function matchesSchemaType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer": return Number.isInteger(value);
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "array": return Array.isArray(value);
+    case "object": return typeof value === "object" && value !== null && !Array.isArray(value);
+    default: return typeof value === type;
   }
-  return "";
 }
 
 /**
- * Classify a message by its type for decay rate assignment.
- * 
- * Classification priority:
- * 1. Tool results (role-based)
- * 2. Ephemeral content (heartbeats, status)
- * 3. User intent (user messages)
- * 4. Decisions (assistant messages with decision markers)
- * 5. Context (everything else)
+ * Check a value against a schema, recording issues.
+ * Returns the value with invalid parts removed (unknown keys, bad array items),
+ * or INVALID when the value itself does not fit.
  */
-function classifyMessage(msg: CompactionMessage): EntryType {
-  const role = msg.role || "";
-  const content = extractContent(msg).toLowerCase();
-
-  // Tool results are always tool_result type
-  if (role === "tool" || role === "toolResult") {
-    return "tool_result";
+function checkSchema(value: unknown, schema: JsonSchema, path: (string | number)[], issues: ConfigIssue[]): unknown {
+  if (schema.$ref) {
+    const name = schema.$ref.replace("#/definitions/", "");
+    return checkSchema(value, { ...CONFIG_SCHEMA.definitions![name], ...schema, $ref: undefined }, path, issues);
   }
 
-  // User messages
-  if (role === "user") {
-    // Check for ephemeral patterns
-    if (
-      content.includes("heartbeat") ||
-      content === "heartbeat_ok" ||
-      content.includes("/status") ||
-      content.includes("no_reply")
-    ) {
-      return "ephemeral";
+  const error = (message: string): typeof INVALID => {
+    issues.push({ severity: "error", path: formatConfigPath(path), message });
+    return INVALID;
+  };
+
+  if (schema.anyOf) {
+    for (const option of schema.anyOf) {
+      const optionIssues: ConfigIssue[] = [];
+      const checked = checkSchema(value, option, path, optionIssues);
+      if (checked !== INVALID && !optionIssues.some((i) => i.severity === "error")) {
+        issues.push(...optionIssues);
+        return checked;
+      }
     }
-    return "user_intent";
+    return error(`must be ${schema.anyOf.map(describeSchema).join(", or ")}`);
   }
 
-  // Assistant messages
-  if (role === "assistant") {
-    // Short responses are often ephemeral
-    if (content.length < 50 && (content.includes("no_reply") || content.includes("ok"))) {
-      return "ephemeral";
+  if (schema.enum && !schema.enum.includes(value)) {
+    const suggestion = typeof value === "string"
+      ? suggestKey(value, schema.enum.filter((v): v is string => typeof v === "string"))
+      : undefined;
+    return error(`must be ${describeSchema(schema)}${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`);
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesSchemaType(value, type))) {
+      return error(`must be ${describeSchema(schema)}, got ${JSON.stringify(value)}`);
     }
-    
-    // Decision markers
-    const decisionMarkers = [
-      "decision", "decided", "will do", "plan", "approach", "strategy",
-      "решил", "план", "буду", "сделаю", "подход"
-    ];
-    if (decisionMarkers.some(marker => content.includes(marker))) {
-      return "decision";
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) return error(`must be at least ${schema.minimum}, got ${value}`);
+    if (schema.maximum !== undefined && value > schema.maximum) return error(`must be at most ${schema.maximum}, got ${value}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      return error(`must be greater than ${schema.exclusiveMinimum}, got ${value}`);
     }
-    
-    // Check for tool calls (assistant requesting tools)
-    if (
-      msg.toolCalls ||
-      msg.tool_calls ||
-      (Array.isArray(msg.content) && msg.content.some((c) => c.type === "tool_use"))
-    ) {
-      return "context";
+  }
+
+  if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+    return error("must not be empty");
+  }
+
+  if (typeof value === "string" && schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+    return error(`must match ${schema.pattern}, got ${JSON.stringify(value)}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value
+      .map((item, i) => checkSchema(item, items, [...path, i], issues))
+      .filter((item) => item !== INVALID);
+  }
+
+  if (matchesSchemaType(value, "object") && (schema.properties || schema.additionalProperties !== undefined)) {
+    const object = value as Record<string, unknown>;
+    const known = Object.keys(schema.properties ?? {});
+    const required = schema.required ?? [];
+    const missing = required.filter((key) => object[key] === undefined);
+    if (missing.length > 0) return error(`missing required ${missing.map((key) => `"${key}"`).join(", ")}`);
+
+    const checked: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(object)) {
+      const itemSchema = schema.properties?.[key]
+        ?? (typeof schema.additionalProperties === "object" ? schema.additionalProperties : undefined);
+      if (!itemSchema && schema.additionalProperties === false) {
+        const suggestion = suggestKey(key, known);
+        issues.push({
+          severity: "warning",
+          path: formatConfigPath([...path, key]),
+          message: suggestion ? `unknown key (did you mean "${suggestion}"?)` : "unknown key",
+          ...(suggestion && { suggestion }),
+        });
+        continue;
+      }
+      const result = itemSchema ? checkSchema(item, itemSchema, [...path, key], issues) : item;
+      if (result !== INVALID) checked[key] = result;
     }
-    
-    return "context";
+    const lost = required.filter((key) => checked[key] === undefined);
+    if (lost.length > 0) return error(`ignored because ${lost.map((key) => `"${key}"`).join(", ")} is invalid`);
+    return checked;
   }
 
-  return "unknown";
+  return value;
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// IMPORTANCE SCORING
-// ═══════════════════════════════════════════════════════════════════════════════
-
 /**
- * Base importance score by message type.
- * Higher = more important = retained longer.
+ * Rules spanning several keys: sparseThreshold must stay below compressThreshold.
+ * Checked per file when both are set there, and again on the merged config.
  */
-function getBaseImportance(type: EntryType): number {
-  const scores: Record<EntryType, number> = {
-    decision:    0.90,
-    user_intent: 0.80,
-    context:     0.50,
-    tool_result: 0.30,
-    ephemeral:   0.10,
-    unknown:     0.40,
-  };
-  return scores[type];
+function checkConfigConstraints(config: Partial<HippocampusConfig>): ConfigIssue[] {
+  const { sparseThreshold: sparse, compressThreshold: compress } = config;
+  if (typeof sparse === "number" && typeof compress === "number" && sparse >= compress) {
+    return [{
+      severity: "error",
+      path: "sparseThreshold",
+      message: `must be below compressThreshold (${sparse} ≥ ${compress})`,
+    }];
+  }
+  return [];
+}
+
+/**
+ * Validate a parsed config file against CONFIG_SCHEMA.
+ * Legacy keys are migrated first (and reported as warnings); the returned config
+ * keeps every valid value, so one bad key never discards the whole file.
+ */
+function validateConfig(value: unknown): ConfigValidationResult {
+  if (!matchesSchemaType(value, "object")) {
+    const issue: ConfigIssue = { severity: "error", path: "", message: "config must be a JSON object" };
+    return { valid: false, issues: [issue], config: {} };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const issues: ConfigIssue[] = Object.keys(raw)
+    .filter((key) => key in LEGACY_CONFIG_KEYS)
+    .map((key) => ({ severity: "warning", path: key, message: `legacy key, use ${LEGACY_CONFIG_KEYS[key]} (\`hippocampus-md init\` migrates it)` }));
+
+  const checked = checkSchema(migrateConfig(raw), CONFIG_SCHEMA, [], issues);
+  const config = (checked === INVALID ? {} : checked) as Partial<HippocampusConfig>;
+  const conflicts = checkConfigConstraints(config);
+  if (conflicts.length > 0) {
+    issues.push(...conflicts);
+    delete config.sparseThreshold;
+    delete config.compressThreshold;
+  }
+
+  return { valid: !issues.some((issue) => issue.severity === "error"), issues, config };
+}
+
+/** Parse and validate config file text; JSON syntax errors become issues too */
+function validateConfigText(text: string): ConfigValidationResult {
+  try {
+    return validateConfig(JSON.parse(text));
+  } catch (err) {
+    const message = `invalid JSON: ${err instanceof Error ? err.message : String(err)}`;
+    return { valid: false, issues: [{ severity: "error", path: "", message }], config: {} };
+  }
+}
+
+/** One issue as a single line: `decayRates.decision: must be at least 0, got -1` */
+function formatConfigIssue(issue: ConfigIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION LOADER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Config file name, looked up in the global platform directory and the workspace root */
+const CONFIG_FILE_NAME = "hippocampus.config.json";
+
+/** Global platform directories under the home directory, most specific first (the CLI's detection order) */
+const GLOBAL_CONFIG_DIRS = [".clawdbot", ".openclaw", ".pi"];
+
+/** Prefix of environment variables that override scalar config keys */
+const CONFIG_ENV_PREFIX = "HIPPOCAMPUS_";
+
+interface ConfigLoadOptions {
+  /** Directory holding the global config. Default: the first existing platform dir under the home directory */
+  globalDir?: string;
+  
+  /** Environment read for HIPPOCAMPUS_* overrides. Default: process.env */
+  env?: Record<string, string | undefined>;
+
+  /** Extra config file layered over the workspace config, e.g. a candidate config to try out */
+  configFile?: string;
+}
+
+interface ConfigLoadResult {
+  config: HippocampusConfig;
+  /** Issues of every layer, tagged with the file path, "environment" or "merged config" */
+  issues: Array<{ source: string; issue: ConfigIssue }>;
+}
+
+/**
+ * Directory of the installed platform (Clawdbot, OpenClaw or Pi).
+ * Falls back to ~/.pi, like `hippocampus-md init`.
+ */
+function findGlobalConfigDir(home: string = homedir()): string {
+  const dirs = GLOBAL_CONFIG_DIRS.map((dir) => join(home, dir));
+  return dirs.find((dir) => existsSync(dir)) ?? dirs[dirs.length - 1];
+}
+
+/**
+ * Translate the legacy config shape (written by earlier `hippocampus-md init`)
+ * into canonical keys: decay → decayRates, retention.sparse/compress →
+ * sparseThreshold/compressThreshold, logPath → logFile, sparseIndex.path →
+ * indexFile. Canonical keys win when a file has both; sparseIndex.enabled has
+ * no equivalent (the archive is always kept) and is dropped.
+ */
+function migrateConfig(raw: Record<string, unknown>): Partial<HippocampusConfig> {
+  const { decay, retention, logPath, sparseIndex, ...rest } = raw;
+  const config = rest as Partial<HippocampusConfig>;
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  if (isRecord(decay)) {
+    config.decayRates = { ...decay, ...config.decayRates } as HippocampusConfig["decayRates"];
+  }
+  if (isRecord(retention)) {
+    if (typeof retention.sparse === "number") config.sparseThreshold ??= retention.sparse;
+    if (typeof retention.compress === "number") config.compressThreshold ??= retention.compress;
+  }
+  if (typeof logPath === "string") config.logFile ??= logPath;
+  if (isRecord(sparseIndex) && typeof sparseIndex.path === "string") config.indexFile ??= sparseIndex.path;
+  return config;
+}
+
+/**
+ * Read, migrate and validate one config file.
+ * Missing files yield undefined; unreadable files yield an error issue.
+ */
+function readConfigFile(configPath: string): ConfigValidationResult | undefined {
+  if (!existsSync(configPath)) return undefined;
+  try {
+    return validateConfigText(readFileSync(configPath, "utf-8"));
+  } catch (err) {
+    const message = `could not be read: ${err instanceof Error ? err.message : String(err)}`;
+    return { valid: false, issues: [{ severity: "error", path: "", message }], config: {} };
+  }
+}
+
+/** Environment variable overriding a config key: sparseThreshold → HIPPOCAMPUS_SPARSE_THRESHOLD */
+function configEnvName(key: string): string {
+  return CONFIG_ENV_PREFIX + key.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+}
+
+/**
+ * Overrides from HIPPOCAMPUS_* variables.
+ * Only scalar keys can be set this way; values are parsed by the type of the default.
+ */
+function readEnvConfig(env: Record<string, string | undefined>): Partial<HippocampusConfig> {
+  const overrides: Record<string, unknown> = {};
+  for (const [key, fallback] of Object.entries(DEFAULT_CONFIG)) {
+    const name = configEnvName(key);
+    const value = env[name]?.trim();
+    if (value === undefined || value === "") continue;
+
+    if (typeof fallback === "boolean") {
+      if (/^(1|true|yes|on)$/i.test(value)) overrides[key] = true;
+      else if (/^(0|false|no|off)$/i.test(value)) overrides[key] = false;
+      else console.warn(`[hippocampus] Ignoring ${name}=${value}: expected true or false`);
+    } else if (typeof fallback === "number") {
+      const parsed = Number(value);
+      if (Number.isFinite(parsed)) overrides[key] = parsed;
+      else console.warn(`[hippocampus] Ignoring ${name}=${value}: expected a number`);
+    } else if (typeof fallback === "string") {
+      overrides[key] = value;
+    }
+  }
+  return overrides as Partial<HippocampusConfig>;
+}
+
+/** Merge one config layer over another; per-key maps merge, everything else is replaced */
+function mergeConfig(base: HippocampusConfig, layer: Partial<HippocampusConfig>): HippocampusConfig {
+  return {
+    ...base,
+    ...layer,
+    decayRates: { ...base.decayRates, ...layer.decayRates },
+    retentionFloor: { ...base.retentionFloor, ...layer.retentionFloor },
+    toolProfiles: { ...base.toolProfiles, ...layer.toolProfiles },
+    customTypes: { ...base.customTypes, ...layer.customTypes },
+    priorityByType: { ...base.priorityByType, ...layer.priorityByType },
+    priorityMarkers: { ...base.priorityMarkers, ...layer.priorityMarkers },
+    tokenizerByModel: { ...base.tokenizerByModel, ...layer.tokenizerByModel },
+  };
+}
+
+/** The global, workspace and extra config files, in layer order, whether or not they exist */
+function getConfigLayerFiles(workspaceDir: string, options: ConfigLoadOptions = {}): string[] {
+  const files = [join(options.globalDir ?? findGlobalConfigDir(), CONFIG_FILE_NAME), join(workspaceDir, CONFIG_FILE_NAME)];
+  if (options.configFile) files.push(resolveWorkspacePath(workspaceDir, options.configFile));
+  return [...new Set(files)];
+}
+
+/** Every file a resolved config depends on: the config layers plus its presets and classifier rules files */
+function getConfigFiles(workspaceDir: string, config: HippocampusConfig, options: ConfigLoadOptions = {}): string[] {
+  const files = getConfigLayerFiles(workspaceDir, options);
+  for (const file of [config.presetsFile, config.classifierRulesFile]) {
+    if (file) files.push(resolveWorkspacePath(workspaceDir, file));
+  }
+  return [...new Set(files)];
+}
+
+/**
+ * Resolve configuration in layers: defaults → preset → global platform dir →
+ * workspace root → options.configFile → HIPPOCAMPUS_* environment variables.
+ * Both config files accept the legacy shape (see migrateConfig). Every layer is
+ * validated; invalid values are skipped, so the layer below applies.
+ */
+function resolveConfig(workspaceDir: string, options: ConfigLoadOptions = {}): ConfigLoadResult {
+  const issues: ConfigLoadResult["issues"] = [];
+  const addIssues = (source: string, found: ConfigIssue[]) => found.forEach((issue) => issues.push({ source, issue }));
+
+  const layers: Partial<HippocampusConfig>[] = [];
+  for (const path of getConfigLayerFiles(workspaceDir, options)) {
+    const layer = readConfigFile(path);
+    if (!layer) continue;
+    addIssues(path, layer.issues);
+    layers.push(layer.config);
+  }
+  const overrides = validateConfig(readEnvConfig(options.env ?? process.env));
+  addIssues("environment", overrides.issues);
+  layers.push(overrides.config);
+
+  // The preset sits right above the defaults, so every explicit setting overrides it
+  let base = DEFAULT_CONFIG;
+  const preset = layers.reduce((name, layer) => layer.preset ?? name, DEFAULT_CONFIG.preset);
+  if (preset) {
+    const presetsFile = layers.reduce((file, layer) => layer.presetsFile ?? file, DEFAULT_CONFIG.presetsFile);
+    const available = getConfigPresets(workspaceDir, presetsFile);
+    addIssues(resolveWorkspacePath(workspaceDir, presetsFile), available.issues);
+    const applied = applyPreset(preset, available.presets);
+    addIssues("preset", applied.issues);
+    base = applied.config;
+  }
+  let config = layers.reduce(mergeConfig, base);
+
+  // Layers can conflict even when each one is valid on its own
+  const conflicts = checkConfigConstraints(config);
+  if (conflicts.length > 0) {
+    addIssues("merged config", conflicts);
+    config = { ...config, sparseThreshold: base.sparseThreshold, compressThreshold: base.compressThreshold };
+  }
+
+  const rules = loadClassifierRules(config, workspaceDir);
+  return { config: rules.config, issues: [...issues, ...rules.issues] };
+}
+
+/** Print config issues as warnings, one line each, prefixed by where they came from */
+function reportConfigIssues(issues: ConfigLoadResult["issues"]): void {
+  for (const { source, issue } of issues) {
+    console.warn(`[hippocampus] ${source}: ${formatConfigIssue(issue)}${issue.severity === "error" ? " (ignored)" : ""}`);
+  }
+}
+
+/**
+ * Load configuration (see resolveConfig), printing any issues as warnings.
+ */
+function loadConfig(workspaceDir: string, options: ConfigLoadOptions = {}): HippocampusConfig {
+  const { config, issues } = resolveConfig(workspaceDir, options);
+  reportConfigIssues(issues);
+  return config;
+}
+
+/** Schema of a classifier rules file, once a bare rule array is read as { rules } */
+const CLASSIFIER_RULES_FILE_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    rules: { type: "array", items: { $ref: "#/definitions/classifierRule" } },
+    types: { type: "object", additionalProperties: { $ref: "#/definitions/customType" } },
+  },
+};
+
+/**
+ * Read and validate a classifier rules file.
+ * Invalid rules and types are reported and left out, like invalid config values.
+ */
+function loadClassifierRulesFile(rulesPath: string): { file: ClassifierRulesFile; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+  if (!existsSync(rulesPath)) return { file: {}, issues };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(rulesPath, "utf-8"));
+  } catch (err) {
+    const message = `invalid JSON: ${err instanceof Error ? err.message : String(err)}`;
+    return { file: {}, issues: [{ severity: "error", path: "", message }] };
+  }
+
+  const checked = checkSchema(Array.isArray(raw) ? { rules: raw } : raw, CLASSIFIER_RULES_FILE_SCHEMA, [], issues);
+  return { file: (checked === INVALID ? {} : checked) as ClassifierRulesFile, issues };
+}
+
+/**
+ * Append the rules and types of config.classifierRulesFile, if it exists.
+ * Rules from the config file run first; config customTypes win over the file's.
+ * Issues are reported under the rules file's path.
+ */
+function loadClassifierRules(config: HippocampusConfig, workspaceDir: string): ConfigLoadResult {
+  if (!config.classifierRulesFile) return { config, issues: [] };
+  const rulesPath = resolveWorkspacePath(workspaceDir, config.classifierRulesFile);
+  const { file, issues } = loadClassifierRulesFile(rulesPath);
+  return {
+    config: {
+      ...config,
+      classifierRules: [...config.classifierRules, ...(file.rules ?? [])],
+      customTypes: { ...file.types, ...config.customTypes },
+    },
+    issues: issues.map((issue) => ({ source: rulesPath, issue })),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONFIG PRESETS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Longest extends chain followed before giving up (guards against cycles) */
+const MAX_PRESET_DEPTH = 8;
+
+/**
+ * Built-in presets. Each is a partial config over DEFAULT_CONFIG; tool
+ * profiles merge per tool, so a preset only lists the tools it retunes.
+ */
+const CONFIG_PRESETS: Record<string, ConfigPreset> = {
+  balanced: {
+    description: "The defaults: a middle ground for mixed sessions",
+    config: {},
+  },
+  aggressive: {
+    description: "Small context windows and long sessions: everything fades about twice as fast",
+    config: {
+      decayRates: {
+        decision: 0.05, user_intent: 0.08, context: 0.20, tool_result: 0.35,
+        error: 0.08, ephemeral: 0.50, unknown: 0.25,
+      },
+      sparseThreshold: 0.35,
+      compressThreshold: 0.75,
+      retentionFloor: { decision: 0.40, user_intent: 0.30, error: 0.20 },
+      toolProfiles: {
+        read:  { decayRate: 0.40, importance: 0.25, retrievable: true,  summarize: "pointer" },
+        grep:  { decayRate: 0.45, importance: 0.20, retrievable: true,  summarize: "pointer" },
+        bash:  { decayRate: 0.30, importance: 0.30, retrievable: false, summarize: "tail" },
+        write: { decayRate: 0.15, importance: 0.45, retrievable: true,  summarize: "pointer" },
+        edit:  { decayRate: 0.15, importance: 0.45, retrievable: true,  summarize: "pointer" },
+      },
+      maxSparseIndexTokens: 1500,
+      associationStrength: 0.6,
+      summaryMaxTokens: 40,
+    },
+  },
+  conservative: {
+    description: "Large context windows or high-stakes work: everything fades about half as fast",
+    config: {
+      decayRates: {
+        decision: 0.015, user_intent: 0.03, context: 0.08, tool_result: 0.12,
+        error: 0.025, ephemeral: 0.25, unknown: 0.10,
+      },
+      sparseThreshold: 0.15,
+      compressThreshold: 0.50,
+      retentionFloor: { decision: 0.60, user_intent: 0.45, error: 0.40 },
+      toolProfiles: {
+        read:  { decayRate: 0.15, importance: 0.35, retrievable: true,  summarize: "head" },
+        grep:  { decayRate: 0.20, importance: 0.30, retrievable: true,  summarize: "head" },
+        bash:  { decayRate: 0.12, importance: 0.40, retrievable: false, summarize: "head_tail" },
+        write: { decayRate: 0.06, importance: 0.55, retrievable: true,  summarize: "pointer" },
+        edit:  { decayRate: 0.06, importance: 0.55, retrievable: true,  summarize: "pointer" },
+      },
+      maxSparseIndexTokens: 4000,
+      summaryMaxTokens: 90,
+    },
+  },
+  coding: {
+    description: "Code work: file reads are re-readable and fade fast, errors and edits stick",
+    config: {
+      decayRates: {
+        decision: 0.03, user_intent: 0.05, context: 0.15, tool_result: 0.25,
+        error: 0.03, ephemeral: 0.40, unknown: 0.15,
+      },
+      retentionFloor: { decision: 0.50, user_intent: 0.35, error: 0.35 },
+      toolProfiles: {
+        read:  { decayRate: 0.35, importance: 0.25, retrievable: true,  summarize: "head" },
+        grep:  { decayRate: 0.40, importance: 0.20, retrievable: true,  summarize: "head" },
+        bash:  { decayRate: 0.15, importance: 0.40, retrievable: false, summarize: "tail" },
+        write: { decayRate: 0.08, importance: 0.55, retrievable: true,  summarize: "pointer" },
+        edit:  { decayRate: 0.08, importance: 0.55, retrievable: true,  summarize: "pointer" },
+      },
+      associationStrength: 0.9,
+    },
+  },
+  research: {
+    description: "Reading and synthesis: fetched sources cannot be re-fetched reliably, so they persist",
+    config: {
+      decayRates: {
+        decision: 0.03, user_intent: 0.04, context: 0.08, tool_result: 0.12,
+        error: 0.05, ephemeral: 0.35, unknown: 0.12,
+      },
+      retentionFloor: { decision: 0.50, user_intent: 0.40, error: 0.25 },
+      toolProfiles: {
+        read:      { decayRate: 0.20, importance: 0.35, retrievable: true,  summarize: "head" },
+        "web_*":   { decayRate: 0.10, importance: 0.45, retrievable: false, summarize: "head" },
+        "fetch*":  { decayRate: 0.10, importance: 0.45, retrievable: false, summarize: "head" },
+        "browser*": { decayRate: 0.15, importance: 0.40, retrievable: false, summarize: "head" },
+      },
+      maxSparseIndexTokens: 3500,
+      summaryMaxTokens: 90,
+    },
+  },
+};
+
+/** Issue path inside a presets file: presets.team.config.decayRates.decision */
+function prefixIssuePath(prefix: string, issue: ConfigIssue): ConfigIssue {
+  const path = !issue.path ? prefix : issue.path.startsWith("[") ? `${prefix}${issue.path}` : `${prefix}.${issue.path}`;
+  return { ...issue, path };
+}
+
+/**
+ * Read team presets from a presets file ({ "presets": { name: { description, extends, config } } }).
+ * Preset configs are validated like config files; a missing file has no presets.
+ */
+function loadPresetsFile(presetsPath: string): { presets: Record<string, ConfigPreset>; issues: ConfigIssue[] } {
+  const presets: Record<string, ConfigPreset> = {};
+  const issues: ConfigIssue[] = [];
+  if (!existsSync(presetsPath)) return { presets, issues };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(presetsPath, "utf-8"));
+  } catch (err) {
+    const message = `invalid JSON: ${err instanceof Error ? err.message : String(err)}`;
+    return { presets, issues: [{ severity: "error", path: "", message }] };
+  }
+
+  const entries = matchesSchemaType(raw, "object") ? (raw as { presets?: unknown }).presets : undefined;
+  if (!matchesSchemaType(entries, "object")) {
+    return { presets, issues: [{ severity: "error", path: "presets", message: "must be an object of named presets" }] };
+  }
+
+  for (const [name, value] of Object.entries(entries as Record<string, unknown>)) {
+    const path = formatConfigPath(["presets", name]);
+    if (!matchesSchemaType(value, "object")) {
+      issues.push({ severity: "error", path, message: "must be an object with description, extends and config" });
+      continue;
+    }
+    const preset = value as Record<string, unknown>;
+    if (preset.extends !== undefined && typeof preset.extends !== "string") {
+      issues.push({ severity: "error", path: `${path}.extends`, message: "must be a preset name" });
+      continue;
+    }
+    const { preset: nested, presetsFile, ...settings } = (matchesSchemaType(preset.config, "object") ? preset.config : {}) as Record<string, unknown>;
+    if (nested !== undefined || presetsFile !== undefined) {
+      issues.push({ severity: "warning", path: `${path}.config`, message: "presets cannot select presets; use extends" });
+    }
+    const result = validateConfig(settings);
+    issues.push(...result.issues.map((issue) => prefixIssuePath(`${path}.config`, issue)));
+    presets[name] = {
+      description: typeof preset.description === "string" ? preset.description : "",
+      ...(typeof preset.extends === "string" && { extends: preset.extends }),
+      config: result.config,
+    };
+  }
+  return { presets, issues };
+}
+
+/**
+ * Built-in presets plus the team presets of config.presetsFile (relative to the
+ * workspace or absolute). A team preset with a built-in name replaces it.
+ */
+function getConfigPresets(workspaceDir: string, presetsFile: string = DEFAULT_CONFIG.presetsFile): { presets: Record<string, ConfigPreset>; issues: ConfigIssue[] } {
+  if (!presetsFile) return { presets: CONFIG_PRESETS, issues: [] };
+  const team = loadPresetsFile(resolveWorkspacePath(workspaceDir, presetsFile));
+  return { presets: { ...CONFIG_PRESETS, ...team.presets }, issues: team.issues };
+}
+
+/**
+ * The defaults with a preset (and the presets it extends) applied.
+ * Unknown names and extends cycles yield an error and the plain defaults.
+ */
+function applyPreset(name: string, presets: Record<string, ConfigPreset>): { config: HippocampusConfig; issues: ConfigIssue[] } {
+  const chain: ConfigPreset[] = [];
+  const seen: string[] = [];
+  for (let current: string | undefined = name; current !== undefined; current = presets[current].extends) {
+    if (!presets[current]) {
+      const suggestion = suggestKey(current, Object.keys(presets));
+      const where = current === name ? "unknown preset" : `preset "${seen[seen.length - 1]}" extends unknown preset`;
+      const hint = suggestion ? ` (did you mean "${suggestion}"?)` : "";
+      const message = `${where} "${current}"${hint}; available: ${Object.keys(presets).join(", ")}`;
+      return { config: DEFAULT_CONFIG, issues: [{ severity: "error", path: "preset", message, ...(suggestion && { suggestion }) }] };
+    }
+    if (seen.includes(current) || seen.length >= MAX_PRESET_DEPTH) {
+      const message = `preset extends chain loops: ${[...seen, current].join(" → ")}`;
+      return { config: DEFAULT_CONFIG, issues: [{ severity: "error", path: "preset", message }] };
+    }
+    seen.push(current);
+    chain.unshift(presets[current]);
+  }
+  return { config: chain.reduce((config, preset) => mergeConfig(config, preset.config), DEFAULT_CONFIG), issues: [] };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONFIG HOT RELOAD
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Editors write a file in several steps; wait for them to settle before re-loading */
+const CONFIG_RELOAD_DEBOUNCE_MS = 200;
+
+/** Longest value shown in a change line before it is clipped */
+const CONFIG_CHANGE_VALUE_LENGTH = 60;
+
+interface ConfigReloadResult {
+  /** applied = swapped in; unchanged = same effective settings; rejected = errors, previous config kept */
+  status: "applied" | "unchanged" | "rejected";
+  /** The config to use from now on (the previous one unless applied) */
+  config: HippocampusConfig;
+  changes: ConfigChange[];
+  issues: ConfigLoadResult["issues"];
+  /** Errors the previous load did not have; any of them rejects the reload */
+  newErrors: ConfigLoadResult["issues"];
+}
+
+interface ConfigWatcher {
+  close(): void;
+}
+
+/**
+ * Effective settings that differ between two configs.
+ * Per-key maps (decayRates, toolProfiles, …) are compared entry by entry.
+ */
+function diffConfig(before: HippocampusConfig, after: HippocampusConfig): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const isMap = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  const same = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = (before as unknown as Record<string, unknown>)[key];
+    const to = (after as unknown as Record<string, unknown>)[key];
+    if (isMap(from) && isMap(to)) {
+      for (const entry of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (!same(from[entry], to[entry])) changes.push({ path: `${key}.${entry}`, from: from[entry], to: to[entry] });
+      }
+    } else if (!same(from, to)) {
+      changes.push({ path: key, from, to });
+    }
+  }
+  return changes;
+}
+
+/** One change as a log line: `decayRates.decision: 0.03 → 0.02` */
+function formatConfigChange(change: ConfigChange): string {
+  const show = (value: unknown): string =>
+    value === undefined ? "(unset)" : clipText(JSON.stringify(value), CONFIG_CHANGE_VALUE_LENGTH);
+  return `${change.path}: ${show(change.from)} → ${show(change.to)}`;
+}
+
+/**
+ * Resolve the config again and decide whether to swap it in.
+ * Any new error rejects the whole reload — a half-typed edit must not silently fall
+ * back to defaults for the broken keys while the rest applies. Errors the previous
+ * load already skipped (previousIssues) do not, so one broken file that nobody
+ * touched cannot block edits to the others.
+ */
+function reloadConfig(
+  workspaceDir: string,
+  current: HippocampusConfig,
+  options: ConfigLoadOptions = {},
+  previousIssues: ConfigLoadResult["issues"] = []
+): ConfigReloadResult {
+  const { config, issues } = resolveConfig(workspaceDir, options);
+  const known = new Set(previousIssues.map(({ source, issue }) => `${source}\u0000${formatConfigIssue(issue)}`));
+  const newErrors = issues.filter(({ source, issue }) =>
+    issue.severity === "error" && !known.has(`${source}\u0000${formatConfigIssue(issue)}`));
+  if (newErrors.length > 0) {
+    return { status: "rejected", config: current, changes: [], issues, newErrors };
+  }
+
+  const changes = diffConfig(current, config);
+  if (changes.length === 0) return { status: "unchanged", config: current, changes, issues, newErrors };
+  return { status: "applied", config, changes, issues, newErrors };
+}
+
+/**
+ * Call onChange (debounced) whenever one of the files is written, created or removed.
+ * Directories are watched rather than the files: editors save by replacing the
+ * file, and a config that does not exist yet may be created later. Directories
+ * that are missing or cannot be watched are skipped.
+ */
+function watchConfigFiles(files: string[], onChange: () => void, debounceMs: number = CONFIG_RELOAD_DEBOUNCE_MS): ConfigWatcher {
+  const namesByDir = new Map<string, Set<string>>();
+  for (const file of files) {
+    const names = namesByDir.get(dirname(file)) ?? new Set<string>();
+    namesByDir.set(dirname(file), names.add(basename(file)));
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const watchers: FSWatcher[] = [];
+  for (const [dir, names] of namesByDir) {
+    if (!existsSync(dir)) continue;
+    try {
+      const watcher = watch(dir, (_event, filename) => {
+        if (filename && !names.has(filename.toString())) return;
+        clearTimeout(timer);
+        timer = setTimeout(onChange, debounceMs);
+      });
+      watcher.on("error", () => watcher.close());
+      // Watching must never keep the agent process alive
+      watcher.unref();
+      watchers.push(watcher);
+    } catch {
+      // Unwatchable directory — changes there need a restart
+    }
+  }
+
+  return {
+    close: () => {
+      clearTimeout(timer);
+      watchers.forEach((watcher) => watcher.close());
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOKENIZATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Rough 4 chars per token approximation — the fallback when no rank file loads */
+const HEURISTIC_TOKENIZER: Tokenizer = {
+  name: "heuristic",
+  count: (text) => Math.ceil(text.length / 4),
+};
+
+/** Pre-tokenized pieces longer than this are counted in chunks (keeps BPE merging linear) */
+const MAX_BPE_PIECE_BYTES = 256;
+const BPE_PIECE_CACHE_SIZE = 20000;
+
+/** Loaded tokenizers by rank file path */
+const tokenizerCache = new Map<string, Tokenizer>();
+
+/**
+ * Build a byte-level BPE tokenizer from a tiktoken-style rank file.
+ * Only counts tokens — it never needs to produce ids, so ranks are keyed by
+ * the token's bytes as a latin1 string.
+ */
+function createBpeTokenizer(file: BpeRankFile): Tokenizer {
+  const ranks = new Map<string, number>();
+  for (const line of file.bpe_ranks.split("\n")) {
+    if (!line) continue;
+    const [, offset, ...tokens] = line.split(" ");
+    const first = Number.parseInt(offset, 10);
+    tokens.forEach((token, i) => ranks.set(Buffer.from(token, "base64").toString("latin1"), first + i));
+  }
+
+  const pattern = new RegExp(file.pat_str, "gu");
+  const pieceCache = new Map<string, number>();
+
+  // Standard BPE: repeatedly merge the adjacent pair with the lowest rank
+  const countBytes = (bytes: string): number => {
+    if (ranks.has(bytes)) return 1;
+    const parts = bytes.split("");
+    for (;;) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          best = i;
+          bestRank = rank;
+        }
+      }
+      if (best === -1) return parts.length;
+      parts.splice(best, 2, parts[best] + parts[best + 1]);
+    }
+  };
+
+  const countPiece = (piece: string): number => {
+    const cached = pieceCache.get(piece);
+    if (cached !== undefined) return cached;
+
+    const bytes = Buffer.from(piece, "utf-8").toString("latin1");
+    let count = 0;
+    for (let i = 0; i < bytes.length; i += MAX_BPE_PIECE_BYTES) {
+      count += countBytes(bytes.slice(i, i + MAX_BPE_PIECE_BYTES));
+    }
+
+    if (pieceCache.size >= BPE_PIECE_CACHE_SIZE) pieceCache.clear();
+    pieceCache.set(piece, count);
+    return count;
+  };
+
+  return {
+    name: file.name ?? "bpe",
+    count: (text) => {
+      let total = 0;
+      for (const match of text.matchAll(pattern)) total += countPiece(match[0]);
+      return total;
+    },
+  };
+}
+
+/**
+ * Directories searched for rank files when config.tokenizerDir is unset:
+ * next to this file (installed extension, source tree), then the package's
+ * extension/ directory (when running from dist/).
+ */
+function getBundledTokenizerDirs(): string[] {
+  try {
+    const here = dirname(fileURLToPath(import.meta.url));
+    return [join(here, "tokenizers"), join(here, "..", "..", "extension", "tokenizers")];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Pick the tokenizer name for a model: first matching tokenizerByModel pattern,
+ * else config.tokenizer.
+ */
+function selectTokenizerName(config: HippocampusConfig, model?: string): string {
+  if (model) {
+    for (const [pattern, name] of Object.entries(config.tokenizerByModel)) {
+      if (matchesWildcard(pattern, model)) return name;
+    }
+  }
+  return config.tokenizer;
+}
+
+/**
+ * Case-insensitive match of a name against a pattern where * matches anything.
+ */
+function matchesWildcard(pattern: string, value: string): boolean {
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`, "i").test(value);
+}
+
+/**
+ * Resolve the tokenizer for a model, loading (and caching) its rank file.
+ * Falls back to the 4-chars-per-token heuristic when the file is missing or invalid.
+ */
+function resolveTokenizer(config: HippocampusConfig, model?: string, workspaceDir: string = process.cwd()): Tokenizer {
+  const name = selectTokenizerName(config, model);
+  if (name === HEURISTIC_TOKENIZER.name) return HEURISTIC_TOKENIZER;
+
+  const dirs = config.tokenizerDir ? [resolveWorkspacePath(workspaceDir, config.tokenizerDir)] : getBundledTokenizerDirs();
+  const path = dirs.map((dir) => join(dir, `${name}.json`)).find((p) => existsSync(p));
+  if (!path) return HEURISTIC_TOKENIZER;
+
+  const cached = tokenizerCache.get(path);
+  if (cached) return cached;
+
+  try {
+    const file = JSON.parse(readFileSync(path, "utf-8")) as BpeRankFile;
+    if (typeof file.pat_str !== "string" || typeof file.bpe_ranks !== "string") return HEURISTIC_TOKENIZER;
+    const tokenizer = createBpeTokenizer({ ...file, name: file.name ?? name });
+    tokenizerCache.set(path, tokenizer);
+    return tokenizer;
+  } catch {
+    return HEURISTIC_TOKENIZER;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// MESSAGE CLASSIFICATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Extract text content from a message, handling various formats.
+ */
+function extractContent(msg: CompactionMessage): string {
+  if (typeof msg.content === "string") return msg.content;
+  if (Array.isArray(msg.content)) {
+    return msg.content
+      .map((block) => block.text || "")
+      .filter(Boolean)
+      .join(" ");
+  }
+  return "";
+}
+
+/**
+ * Classify a message with the built-in heuristics.
+ * Used as the fallback of the classifier pipeline (see classifyEntry).
+ * 
+ * Classification priority:
+ * 1. Tool results (role-based), split into errors and regular output
+ * 2. Ephemeral content (heartbeats, status)
+ * 3. User intent (user messages)
+ * 4. Decisions (assistant messages with decision markers)
+ * 5. Context (everything else)
+ */
+function classifyMessage(msg: CompactionMessage): BuiltinEntryType {
+  const role = msg.role || "";
+  const content = extractContent(msg).toLowerCase();
+
+  // Tool results are tool_result, or error when the tool failed
+  if (isToolResultMessage(msg)) {
+    return isErrorResult(msg) ? "error" : "tool_result";
+  }
+
+  // User messages
+  if (role === "user") {
+    // Check for ephemeral patterns
+    if (
+      content.includes("heartbeat") ||
+      content === "heartbeat_ok" ||
+      content.includes("/status") ||
+      content.includes("no_reply")
+    ) {
+      return "ephemeral";
+    }
+    return "user_intent";
+  }
+
+  // Assistant messages
+  if (role === "assistant") {
+    // Short responses are often ephemeral
+    if (content.length < 50 && (content.includes("no_reply") || content.includes("ok"))) {
+      return "ephemeral";
+    }
+    
+    // Decision markers
+    const decisionMarkers = [
+      "decision", "decided", "will do", "plan", "approach", "strategy",
+      "решил", "план", "буду", "сделаю", "подход"
+    ];
+    if (decisionMarkers.some(marker => content.includes(marker))) {
+      return "decision";
+    }
+    
+    // Check for tool calls (assistant requesting tools)
+    if (
+      msg.toolCalls ||
+      msg.tool_calls ||
+      (Array.isArray(msg.content) && msg.content.some((c) => c.type === "tool_use"))
+    ) {
+      return "context";
+    }
+    
+    return "context";
+  }
+
+  return "unknown";
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CLASSIFIER PIPELINE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const BUILTIN_ENTRY_TYPES: readonly BuiltinEntryType[] = [
+  "tool_result", "error", "decision", "user_intent", "ephemeral", "context", "unknown",
+];
+
+/** Compiled rule patterns; null marks an invalid pattern (the rule never matches) */
+const rulePatternCache = new WeakMap<ClassifierRuleMatch, RegExp | null>();
+
+function isBuiltinEntryType(type: EntryType): type is BuiltinEntryType {
+  return (BUILTIN_ENTRY_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Resolve the built-in type an entry type behaves like.
+ * Custom types inherit from their `extends` type, or from "unknown".
+ */
+function getBaseType(type: EntryType, config: HippocampusConfig): BuiltinEntryType {
+  if (isBuiltinEntryType(type)) return type;
+  return config.customTypes[type]?.extends ?? "unknown";
+}
+
+function getRulePattern(match: ClassifierRuleMatch): RegExp | null {
+  let pattern = rulePatternCache.get(match);
+  if (pattern === undefined) {
+    try {
+      pattern = new RegExp(match.pattern ?? "", match.flags ?? "i");
+    } catch {
+      pattern = null;
+    }
+    rulePatternCache.set(match, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Check a single classifier rule match clause against a message.
+ */
+function matchesClassifierRule(match: ClassifierRuleMatch, msg: CompactionMessage): boolean {
+  const anyOf = (value: string | string[] | undefined, candidates: string[]): boolean => {
+    if (value === undefined) return true;
+    const wanted = (Array.isArray(value) ? value : [value]).map((v) => v.toLowerCase());
+    return candidates.some((c) => wanted.includes(c.toLowerCase()));
+  };
+
+  if (!anyOf(match.role, [msg.role || "unknown"])) return false;
+  if (!anyOf(match.toolName, [extractToolName(msg)])) return false;
+  if (match.blockType !== undefined) {
+    const blocks = Array.isArray(msg.content) ? msg.content.map((block) => block.type ?? "") : [];
+    if (!anyOf(match.blockType, blocks)) return false;
+  }
+
+  if (match.pattern === undefined && match.minLength === undefined && match.maxLength === undefined) {
+    return true;
+  }
+
+  const content = extractContent(msg);
+  if (match.minLength !== undefined && content.length < match.minLength) return false;
+  if (match.maxLength !== undefined && content.length > match.maxLength) return false;
+  if (match.pattern !== undefined) {
+    const pattern = getRulePattern(match);
+    if (!pattern) return false;
+    pattern.lastIndex = 0;
+    if (!pattern.test(content)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Classify a message: ordered config rules first (first match wins),
+ * then the built-in heuristics.
+ */
+function classifyEntry(msg: CompactionMessage, config: HippocampusConfig = DEFAULT_CONFIG): Classification {
+  for (let i = 0; i < config.classifierRules.length; i++) {
+    const rule = config.classifierRules[i];
+    if (!rule.type || !matchesClassifierRule(rule.match ?? {}, msg)) continue;
+    return { type: rule.type, baseType: getBaseType(rule.type, config), rule: rule.name ?? `rule[${i}]` };
+  }
+
+  const type = classifyMessage(msg);
+  return { type, baseType: type };
+}
+
+/**
+ * Decay rate (λ) for a type: custom type profile, then decayRates, then the base type's rate.
+ */
+function getTypeDecayRate(type: EntryType, config: HippocampusConfig): number {
+  return config.customTypes[type]?.decayRate
+    ?? config.decayRates[type]
+    ?? config.decayRates[getBaseType(type, config)];
+}
+
+/**
+ * Retention floor for a type: custom type profile, then retentionFloor, then the base type's floor.
+ */
+function getTypeFloor(type: EntryType, config: HippocampusConfig): number {
+  return config.customTypes[type]?.floor
+    ?? config.retentionFloor[type]
+    ?? config.retentionFloor[getBaseType(type, config)]
+    ?? 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL PROFILES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Find the profile for a tool: an exact (case-insensitive) key first,
+ * then the first matching wildcard pattern.
+ */
+function getToolProfile(toolName: string, config: HippocampusConfig): ToolProfile | undefined {
+  const entries = Object.entries(config.toolProfiles);
+  const exact = entries.find(([name]) => name.toLowerCase() === toolName.toLowerCase());
+  if (exact) return exact[1];
+  return entries.find(([name]) => name.includes("*") && matchesWildcard(name, toolName))?.[1];
+}
+
+/**
+ * Profile that applies to a classified message. Only plain tool_result entries use
+ * tool profiles; a custom type assigned by a classifier rule brings its own.
+ */
+function getEntryToolProfile(msg: CompactionMessage, type: EntryType, config: HippocampusConfig): ToolProfile | undefined {
+  return type === "tool_result" ? getToolProfile(extractToolName(msg), config) : undefined;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TOOL CALL PAIRING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Arguments worth showing next to a tool name, in order of preference */
+const KEY_ARGUMENTS = ["path", "file_path", "filePath", "file", "command", "cmd", "pattern", "query", "url"];
+
+/**
+ * Check whether a message carries tool output: a tool/toolResult message,
+ * or an Anthropic user message made only of tool_result blocks.
+ */
+function isToolResultMessage(msg: CompactionMessage): boolean {
+  if (msg.role === "tool" || msg.role === "toolResult") return true;
+  return msg.role === "user"
+    && Array.isArray(msg.content)
+    && msg.content.length > 0
+    && msg.content.every((block) => block.type === "tool_result");
+}
+
+/**
+ * Extract the tool calls an assistant message makes, from every transcript format:
+ * Pi toolCall blocks, Anthropic tool_use blocks, and toolCalls/tool_calls arrays.
+ */
+function extractToolCalls(msg: CompactionMessage): ToolCallInfo[] {
+  const calls: ToolCallInfo[] = [];
+
+  if (Array.isArray(msg.content)) {
+    for (const block of msg.content) {
+      if (block.type === "toolCall") calls.push({ id: block.id, name: block.name ?? "unknown_tool", arguments: block.arguments });
+      if (block.type === "tool_use") calls.push({ id: block.id, name: block.name ?? "unknown_tool", arguments: block.input });
+    }
+  }
+
+  for (const call of [...(msg.toolCalls ?? []), ...(msg.tool_calls ?? [])]) {
+    if (typeof call !== "object" || call === null) continue;
+    const record = call as {
+      id?: string;
+      name?: string;
+      arguments?: unknown;
+      input?: unknown;
+      function?: { name?: string; arguments?: unknown };
+    };
+    calls.push({
+      id: record.id,
+      name: record.name ?? record.function?.name ?? "unknown_tool",
+      arguments: record.arguments ?? record.input ?? record.function?.arguments,
+    });
+  }
+
+  // OpenAI sends arguments as a JSON string
+  return calls.map((call) => {
+    if (typeof call.arguments !== "string") return call;
+    try {
+      return { ...call, arguments: JSON.parse(call.arguments) };
+    } catch {
+      return call;
+    }
+  });
+}
+
+/**
+ * Ids of the calls a tool result answers (toolCallId, tool_call_id, or tool_result blocks).
+ */
+function getToolResultIds(msg: CompactionMessage): string[] {
+  const ids = [msg.toolCallId, msg.tool_call_id];
+  if (Array.isArray(msg.content)) {
+    for (const block of msg.content) {
+      if (block.type === "tool_result") ids.push(block.tool_use_id);
+    }
+  }
+  return ids.filter((id): id is string => Boolean(id));
+}
+
+/**
+ * Pick the argument that identifies a call (file path, command, …), first line only.
+ */
+function summarizeToolArguments(args: unknown, maxLen = 60): string | undefined {
+  const shorten = (value: string): string => {
+    const line = value.trim().split("\n")[0];
+    return line.length > maxLen ? line.slice(0, maxLen) + "…" : line;
+  };
+
+  if (typeof args === "string") return args.trim() ? shorten(args) : undefined;
+  if (typeof args !== "object" || args === null) return undefined;
+
+  const record = args as Record<string, unknown>;
+  const key = KEY_ARGUMENTS.find((k) => typeof record[k] === "string" && (record[k] as string).trim());
+  if (key) return shorten(record[key] as string);
+  const first = Object.values(record).find((v): v is string => typeof v === "string" && v.trim() !== "");
+  return first === undefined ? undefined : shorten(first);
+}
+
+/**
+ * Render a call as name(key argument).
+ */
+function describeToolCall(call: { name: string; args?: string }): string {
+  return call.args ? `${call.name}(${call.args})` : call.name;
+}
+
+/**
+ * Match every tool result to the call that produced it.
+ * Results are linked by call id; only results without an id take the oldest
+ * open call of the same tool name (or the oldest open call when unnamed).
+ */
+function pairToolCalls(messages: CompactionMessage[]): ToolPairing {
+  const pairing: ToolPairing = { calls: new Map(), results: new Map(), answered: new Set() };
+  const open: Array<ToolCallInfo & { index: number }> = [];
+  const unanswered = new Map<number, number>();
+
+  messages.forEach((msg, i) => {
+    if (msg.role === "assistant") {
+      const calls = extractToolCalls(msg);
+      calls.forEach((call) => open.push({ ...call, index: i }));
+      if (calls.length > 0) unanswered.set(i, calls.length);
+      return;
+    }
+    if (!isToolResultMessage(msg)) return;
+
+    const matched: Array<ToolCallInfo & { index: number }> = [];
+    const ids = getToolResultIds(msg);
+    for (const id of ids) {
+      const at = open.findIndex((call) => call.id === id);
+      if (at >= 0) matched.push(...open.splice(at, 1));
+    }
+    // A result whose id answers no open call stays unpaired rather than claiming another call
+    if (ids.length === 0) {
+      const name = msg.toolName ?? msg.name;
+      const at = open.findIndex((call) => !name || call.name === name);
+      if (at >= 0) matched.push(...open.splice(at, 1));
+    }
+    if (matched.length === 0) return;
+
+    const [first] = matched;
+    pairing.calls.set(i, { index: first.index, id: first.id, name: first.name, args: summarizeToolArguments(first.arguments) });
+    for (const call of matched) {
+      const results = pairing.results.get(call.index) ?? [];
+      if (!results.includes(i)) results.push(i);
+      pairing.results.set(call.index, results);
+
+      const left = (unanswered.get(call.index) ?? 1) - 1;
+      unanswered.set(call.index, left);
+      if (left === 0) pairing.answered.add(call.index);
+    }
+  });
+
+  return pairing;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ERROR DETECTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Lines that announce a failure: Error:/TypeError:, compiler errors, npm ERR!, fatal:, panic: */
+const ERROR_LINE_PATTERNS: readonly RegExp[] = [
+  /^(?:[A-Z]\w*)?(?:Error|Exception)(?:\s*\[[\w-]+\])?: /,
+  /^error(?:\[\w+\])?: /,
+  /: error TS\d+: /,
+  /^(?:npm ERR!|fatal: |panic: |FATAL[: ])/,
+  /: command not found$/,
+];
+
+/** Non-zero exit status reported by a shell tool */
+const EXIT_CODE_PATTERN = /\bexit(?:ed)?(?: with)? (?:code|status):? *[1-9]\d*/i;
+
+/** Stack traces: JavaScript frames, Python tracebacks, Go goroutine dumps */
+const STACK_TRACE_PATTERNS: readonly RegExp[] = [
+  /^\s+at .+:\d+:\d+\)?$/m,
+  /^Traceback \(most recent call last\):/m,
+  /^goroutine \d+ \[/m,
+];
+
+/** Tool outputs that count as tool results for naming and sparse lines */
+function isToolOutputType(type: BuiltinEntryType): boolean {
+  return type === "tool_result" || type === "error";
+}
+
+/**
+ * Detect a failed tool call: an is_error/isError flag, a non-zero exit code,
+ * a stack trace, or a line starting with an error prefix.
+ */
+function isErrorResult(msg: CompactionMessage): boolean {
+  if (msg.isError || msg.is_error) return true;
+  if (Array.isArray(msg.content) && msg.content.some((block) => block.is_error)) return true;
+
+  const text = extractContent(msg);
+  if (EXIT_CODE_PATTERN.test(text)) return true;
+  if (STACK_TRACE_PATTERNS.some((pattern) => pattern.test(text))) return true;
+  return text.split("\n").some((line) => ERROR_LINE_PATTERNS.some((pattern) => pattern.test(line)));
+}
+
+/**
+ * Pick the line that says what went wrong: the first error-prefixed line,
+ * else the exit code line, else the last non-empty line (where tracebacks end).
+ */
+function extractErrorLine(text: string, maxLen = 160): string {
+  const lines = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  const line = lines.find((l) => ERROR_LINE_PATTERNS.some((pattern) => pattern.test(l)))
+    ?? lines.find((l) => EXIT_CODE_PATTERN.test(l))
+    ?? lines[lines.length - 1]
+    ?? "";
+  return line.length > maxLen ? line.slice(0, maxLen) + "…" : line;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// KEY DATA EXTRACTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Most items kept per list, so a huge listing can't flood a sparse line */
+const KEY_DATA_LIST_LIMIT = 5;
+
+/** Longest key data rendering appended to a compressed or sparse line */
+const KEY_DATA_MAX_LENGTH = 160;
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s"'<>`()[\]{}]+/g;
+/** Paths with a directory part, or bare file names with a well-known extension */
+const PATH_PATTERN = /(?<![\w@:/.-])((?:~|\.{1,2})?\/?(?:[\w@.-]+\/)+[\w@-][\w@.-]*\.\w{1,10}|[\w@-][\w@.-]*\.(?:[cm]?[jt]sx?|json|md|py|go|rs|java|rb|ya?ml|toml|sh|css|html|sql|lock|txt))(:\d+(?::\d+)?)?(?![\w/])/g;
+/** git log --oneline, "commit <sha>", and "[branch <sha>]" from git commit */
+const SHA_PATTERNS: readonly RegExp[] = [
+  /^((?=\d*[a-f])[0-9a-f]{7,12}) \S/gm,
+  /\bcommit ([0-9a-f]{40})\b/g,
+  /^\[[\w./-]+(?: \(root-commit\))? ([0-9a-f]{7,12})\]/gm,
+];
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const HASH_PATTERN = /\b(?:sha\d*[-:])?(?=\d*[a-f])[0-9a-f]{32,64}\b/g;
+/** `button "Submit" [ref=e12]` in browser accessibility snapshots */
+const REF_PATTERN = /"([^"\n]{1,40})"[^"\n[]*\[ref=([\w-]+)\]/g;
+/** "Users: 19", "duration = 3.2s" — a number that ends the phrase */
+const LABELED_NUMBER_PATTERN = /(?:^|[\s,;(|])([A-Za-z][A-Za-z _-]{0,28}[A-Za-z])\s*[:=]\s*(-?\d[\d,]*(?:\.\d+)?)(%|ms|s|kb|mb|gb)?(?=\s*(?:$|[,;)|]))/gim;
+const TEST_COUNT_PATTERN = /(\d+) (passed|passing|failed|failing|skipped|pending|todo)\b/gi;
+/** Vitest/Jest summary line; preferred over "Test Files" and suite lines */
+const TEST_SUMMARY_LINE = /^\s*Tests?:?\s+\d/;
+
+function uniqueMatches(text: string, pattern: RegExp, group = 0): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(pattern)) {
+    found.add(match[group]);
+    if (found.size >= KEY_DATA_LIST_LIMIT) break;
+  }
+  return [...found];
+}
+
+function extractTestCounts(text: string): TestCounts | undefined {
+  const lines = text.split("\n");
+  const summary = lines.find((line) => TEST_SUMMARY_LINE.test(line) && /\d+ (?:passed|failed)/.test(line));
+  const counts: TestCounts = {};
+  for (const line of summary ? [summary] : lines) {
+    for (const [, count, word] of line.matchAll(TEST_COUNT_PATTERN)) {
+      const key = word.startsWith("pass") ? "passed" : word.startsWith("fail") ? "failed" : "skipped";
+      counts[key] = (counts[key] ?? 0) + Number(count);
+    }
+  }
+  return Object.keys(counts).length > 0 ? counts : undefined;
+}
+
+function extractJsonKeys(text: string): KeyData["json"] {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("{")) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return undefined;
+
+  const json: NonNullable<KeyData["json"]> = {};
+  for (const [key, value] of Object.entries(parsed).slice(0, 8)) {
+    if (typeof value === "string") json[key] = value.length > 40 ? value.slice(0, 40) + "…" : value;
+    else if (typeof value === "number" || typeof value === "boolean" || value === null) json[key] = value;
+    else json[key] = Array.isArray(value) ? `[${value.length}]` : "{…}";
+  }
+  return json;
+}
+
+function extractLabeledValues(text: string): KeyData["values"] {
+  const values: NonNullable<KeyData["values"]> = {};
+  for (const [, label, number, unit] of text.matchAll(LABELED_NUMBER_PATTERN)) {
+    const key = label.trim().toLowerCase().replace(/[\s-]+/g, "_");
+    if (key in values || /^tests?$/.test(key)) continue;
+    const value = number.replace(/,/g, "");
+    values[key] = unit ? value + unit : Number(value);
+    if (Object.keys(values).length >= KEY_DATA_LIST_LIMIT) break;
+  }
+  return Object.keys(values).length > 0 ? values : undefined;
+}
+
+/**
+ * Pull structured facts out of tool output — test counts, paths, URLs,
+ * git SHAs, ids and hashes, snapshot refs, labeled numbers and JSON keys —
+ * so a decayed pointer still says what the output contained.
+ * Returns undefined when nothing was found.
+ */
+function extractKeyData(text: string): KeyData | undefined {
+  const urls = uniqueMatches(text, URL_PATTERN).map((url) => url.replace(/[.,;:!?]+$/, ""));
+  const withoutUrls = text.replace(URL_PATTERN, " ");
+  const shas = [...new Set(SHA_PATTERNS.flatMap((pattern) => uniqueMatches(withoutUrls, pattern, 1)))]
+    .slice(0, KEY_DATA_LIST_LIMIT);
+  const ids = [...new Set([...uniqueMatches(withoutUrls, UUID_PATTERN), ...uniqueMatches(withoutUrls, HASH_PATTERN)])]
+    .filter((id) => !shas.includes(id))
+    .slice(0, KEY_DATA_LIST_LIMIT);
+  const refs = Object.fromEntries(
+    [...withoutUrls.matchAll(REF_PATTERN)].slice(0, KEY_DATA_LIST_LIMIT).map(([, label, ref]) => [label, ref])
+  );
+
+  const keyData: KeyData = {
+    tests: extractTestCounts(text),
+    paths: uniqueMatches(withoutUrls, PATH_PATTERN),
+    urls,
+    shas,
+    ids,
+    refs,
+    values: extractLabeledValues(withoutUrls),
+    json: extractJsonKeys(text),
+  };
+
+  for (const [key, value] of Object.entries(keyData)) {
+    const empty = value === undefined || (Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0);
+    if (empty) delete keyData[key as keyof KeyData];
+  }
+  return Object.keys(keyData).length > 0 ? keyData : undefined;
+}
+
+/**
+ * Render key data compactly for a summary line:
+ * `{tests: 12 passed, 1 failed | paths: src/a.ts | users=19}`
+ */
+function formatKeyData(keyData: KeyData, maxLen = KEY_DATA_MAX_LENGTH): string {
+  const pairs = (record: Record<string, unknown>) =>
+    Object.entries(record).map(([key, value]) => `${key}=${value}`).join(", ");
+  const parts: string[] = [];
+
+  if (keyData.tests) {
+    parts.push(`tests: ${Object.entries(keyData.tests).map(([key, count]) => `${count} ${key}`).join(", ")}`);
+  }
+  if (keyData.paths) parts.push(`paths: ${keyData.paths.join(", ")}`);
+  if (keyData.shas) parts.push(`sha: ${keyData.shas.join(", ")}`);
+  if (keyData.refs) parts.push(`refs: ${pairs(keyData.refs)}`);
+  if (keyData.values) parts.push(pairs(keyData.values));
+  if (keyData.json) {
+    parts.push(`json: ${Object.entries(keyData.json).map(([key, value]) =>
+      typeof value === "string" && /^(?:\[\d+\]|\{…\})$/.test(value) ? key : `${key}=${value}`
+    ).join(", ")}`);
+  }
+  if (keyData.urls) parts.push(`urls: ${keyData.urls.join(", ")}`);
+  if (keyData.ids) parts.push(`ids: ${keyData.ids.join(", ")}`);
+
+  const body = parts.join(" | ");
+  return `{${body.length > maxLen ? body.slice(0, maxLen) + "…" : body}}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// CONTENT PREVIEWS
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const DIFF_PATTERN = /^(?:diff --git |--- a\/|\+\+\+ b\/|@@ -\d+(?:,\d+)? \+\d+)/m;
+/** Lines that only occur in source code: declarations, imports, braces, statement ends */
+const CODE_LINE_PATTERN = /^\s*(?:import\s|export\s|from\s+\S+\s+import\s|(?:async\s+)?function\b|class\s|interface\s|type\s+\w+\s*=|enum\s|const\s|let\s|var\s|def\s|fn\s|pub\s|func\s|package\s|#include|struct\s|impl\s|return\b|@\w+|\}|.*[;{]\s*$)/;
+/** Declarations worth keeping when code is reduced to its outline */
+const SIGNATURE_PATTERN = /^\s*(?:export\s+)?(?:default\s+)?(?:pub(?:\(\w+\))?\s+)?(?:abstract\s+)?(?:async\s+)?(?:(?:function\*?|class|interface|type|enum|def|fn|func|struct|impl|trait|module)\s+[\w$]|const\s+[\w$]+\s*=\s*(?:async\s*)?(?:\([^)]*\)|[\w$]+)\s*=>)/;
+/** Markdown list items, headings and quotes read as prose, not log lines */
+const MARKDOWN_LINE_PATTERN = /^\s*(?:#{1,6}|[-*+>]|\d+[.)])\s/;
+
+/**
+ * Shorten text to at most maxLen characters, cutting at a word boundary
+ * when one is close, and mark the cut with an ellipsis.
+ */
+function clipText(text: string, maxLen: number): string {
+  if (text.length <= maxLen) return text;
+  const cut = text.slice(0, maxLen);
+  const space = cut.lastIndexOf(" ");
+  return (space > maxLen * 0.6 ? cut.slice(0, space) : cut).replace(/[\s,;:]+$/, "") + "…";
+}
+
+function parseJsonValue(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Guess whether text is a patch, JSON, source code, log output or prose */
+function detectContentKind(text: string): ContentKind {
+  const trimmed = text.trim();
+  if (DIFF_PATTERN.test(trimmed)) return "diff";
+  if (/^[{[]/.test(trimmed) && parseJsonValue(trimmed) !== undefined) return "json";
+
+  const lines = trimmed.split("\n").filter((line) => line.trim());
+  const codeLines = lines.filter((line) => CODE_LINE_PATTERN.test(line)).length;
+  if (trimmed.startsWith("```") || (lines.length >= 3 && codeLines / lines.length >= 0.4)) return "code";
+
+  const proseLines = lines.filter((line) => MARKDOWN_LINE_PATTERN.test(line) || /[.!?:]["')]?$/.test(line.trim())).length;
+  if (lines.length >= 4 && proseLines < lines.length / 2) return "log";
+  return "prose";
+}
+
+/** First meaningful sentence (three words or more), plus the ones after it that still fit */
+function previewProse(text: string, maxLen: number): string {
+  const flat = text
+    .replace(/```[\s\S]*?(?:```|$)/g, " ")
+    .replace(new RegExp(MARKDOWN_LINE_PATTERN.source, "gm"), "")
+    .replace(/\s+/g, " ")
+    .trim();
+  const sentences = flat.split(/(?<=[.!?])\s+/);
+  const start = Math.max(0, sentences.findIndex((sentence) => sentence.split(" ").length >= 3));
+
+  let preview = sentences[start] ?? "";
+  for (const sentence of sentences.slice(start + 1)) {
+    if (preview.length + 1 + sentence.length > maxLen) break;
+    preview += " " + sentence;
+  }
+  return clipText(preview, maxLen);
+}
+
+/** Signature lines (functions, classes, types) and the line count */
+function previewCode(text: string, maxLen: number): string {
+  const lines = text.replace(/^```.*$/gm, "").split("\n").filter((line) => line.trim());
+  const signatures = lines.filter((line) => SIGNATURE_PATTERN.test(line));
+  const outline = (signatures.length > 0 ? signatures : lines.filter((line) => !/^\s*(?:import\s|from\s|\/\/|#|\/?\*)/.test(line)))
+    .map((line) => line.trim().replace(/\s*[{:]\s*$/, ""));
+  const suffix = ` (${text.trimEnd().split("\n").length} lines)`;
+  return clipText(outline.join("; "), maxLen - suffix.length) + suffix;
+}
+
+/** Top-level keys of an object, or the item count and first item's keys of an array */
+function previewJson(value: unknown, maxLen: number): string {
+  if (Array.isArray(value)) {
+    const first = value[0];
+    const shape = typeof first === "object" && first !== null && !Array.isArray(first) ? ` of {${Object.keys(first).join(", ")}}` : "";
+    return clipText(`[${value.length} items${shape}]`, maxLen);
+  }
+  if (typeof value === "object" && value !== null) {
+    return clipText(`{${Object.keys(value).join(", ")}}`, maxLen);
+  }
+  return clipText(JSON.stringify(value), maxLen);
+}
+
+/** First and last lines with the line count in between */
+function previewLog(text: string, maxLen: number): string {
+  const lines = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  const middle = ` … (${lines.length} lines) … `;
+  const half = Math.max(10, Math.floor((maxLen - middle.length) / 2));
+  return clipText(lines[0], half) + middle + clipText(lines[lines.length - 1], half);
+}
+
+/** Files touched and lines added/removed */
+function previewDiff(text: string, maxLen: number): string {
+  const files = new Set<string>();
+  for (const [, file] of text.matchAll(/^(?:diff --git a\/\S+ b\/|\+\+\+ b\/)(\S+)/gm)) files.add(file);
+  const added = (text.match(/^\+(?!\+\+ )/gm) ?? []).length;
+  const removed = (text.match(/^-(?!-- )/gm) ?? []).length;
+  const count = `${files.size} file${files.size === 1 ? "" : "s"}`;
+  return clipText(`diff: ${count}, +${added} -${removed} (${[...files].join(", ")})`, maxLen);
+}
+
+/**
+ * Build a preview that fits maxLen from the content's shape instead of
+ * slicing it: the first meaningful sentence of prose, signature lines of
+ * code, top-level keys of JSON, first/last lines of logs, stats of diffs.
+ * Content that already fits is returned unchanged.
+ */
+function previewContent(text: string, maxLen = 120, kind: ContentKind = detectContentKind(text)): string {
+  if (text.length <= maxLen) return text;
+  switch (kind) {
+    case "diff":
+      return previewDiff(text, maxLen);
+    case "json":
+      return previewJson(parseJsonValue(text.trim()), maxLen);
+    case "code":
+      return previewCode(text, maxLen);
+    case "log":
+      return previewLog(text, maxLen);
+    default:
+      return previewProse(text, maxLen);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// EXTRACTIVE SUMMARIZATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Function words ignored when comparing sentences (English and Russian) */
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "for", "from", "has", "have",
+  "if", "in", "into", "is", "it", "its", "no", "not", "of", "on", "or", "so", "than", "that", "the",
+  "then", "there", "these", "this", "to", "was", "we", "were", "will", "with", "you", "your", "i",
+  "и", "в", "во", "не", "что", "он", "на", "я", "с", "со", "как", "а", "то", "все", "она", "так",
+  "его", "но", "да", "ты", "к", "у", "же", "вы", "за", "бы", "по", "только", "ее", "мне", "было",
+  "вот", "от", "меня", "еще", "нет", "о", "из", "ему", "это", "этот", "для", "мы", "их", "при",
+]);
+
+/** Most sentences ranked per entry; the rest of a very long text is ignored */
+const MAX_RANKED_SENTENCES = 300;
+
+/** TextRank damping factor: the share of rank passed along similarity edges */
+const TEXTRANK_DAMPING = 0.85;
+
+/** Words are compared by their first letters — a crude stem that works across languages */
+const STEM_LENGTH = 6;
+
+const FENCE_PATTERN = /```[^\n]*\n[\s\S]*?(?:```|$)/g;
+
+/**
+ * Split prose into sentences. Lines are never joined; within a line, a sentence
+ * ends at . ! ? or … followed by an upper-case letter or digit in any script.
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .map((line) => line.replace(MARKDOWN_LINE_PATTERN, "").trim())
+    .flatMap((line) => line.split(/(?<=[.!?…])\s+(?=[\p{Lu}\p{N}"'«([])/u))
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => /[\p{L}\p{N}]/u.test(sentence));
+}
+
+function sentenceTerms(sentence: string): string[] {
+  return (sentence.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [])
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map((word) => word.slice(0, STEM_LENGTH));
+}
+
+/**
+ * TextRank over TF-IDF sentence vectors: sentences that share rare terms with
+ * many other sentences rank highest. Returns one score per sentence.
+ */
+function rankSentences(sentences: string[], iterations = 30, damping = TEXTRANK_DAMPING): number[] {
+  const terms = sentences.map(sentenceTerms);
+  const documentFrequency = new Map<string, number>();
+  for (const words of terms) {
+    for (const word of new Set(words)) documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1);
+  }
+
+  const vectors = terms.map((words) => {
+    const vector = new Map<string, number>();
+    for (const word of words) vector.set(word, (vector.get(word) ?? 0) + 1);
+    for (const [word, count] of vector) {
+      vector.set(word, count * Math.log(1 + sentences.length / documentFrequency.get(word)!));
+    }
+    return vector;
+  });
+  const norms = vectors.map((vector) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0)));
+
+  const n = sentences.length;
+  const weights = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (norms[i] === 0 || norms[j] === 0) continue;
+      let dot = 0;
+      for (const [word, weight] of vectors[i]) dot += weight * (vectors[j].get(word) ?? 0);
+      weights[i][j] = weights[j][i] = dot / (norms[i] * norms[j]);
+    }
+  }
+
+  const outWeight = weights.map((row) => row.reduce((sum, w) => sum + w, 0));
+  let scores = new Array<number>(n).fill(1 / Math.max(n, 1));
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const next = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0) rank += (weights[j][i] / outWeight[j]) * scores[j];
+      }
+      return (1 - damping) / n + damping * rank;
+    });
+    const delta = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+    scores = next;
+    if (delta < 1e-6) break;
+  }
+  return scores;
+}
+
+/**
+ * Condense text to a token budget by keeping its highest-ranked sentences
+ * (see rankSentences) in their original order.
+ *
+ * Prose is ranked sentence by sentence; fenced code blocks take part as a
+ * single outline line (see previewContent). Code, JSON, logs and diffs are
+ * reduced to their content-aware preview instead.
+ */
+function summarizeExtractive(text: string, maxTokens: number, tokenizer: Tokenizer = HEURISTIC_TOKENIZER): string {
+  const maxChars = maxTokens * 4;
+  if (tokenizer.count(text) <= maxTokens) return text.replace(/\s+/g, " ").trim();
+
+  const kind = detectContentKind(text);
+  if (kind !== "prose") return previewContent(text, maxChars, kind);
+
+  const blocks: string[] = [];
+  const prose = text.replace(FENCE_PATTERN, (block) => {
+    blocks.push(`[code: ${previewContent(block, 100, "code")}]`);
+    return `\n\uE000${blocks.length - 1}\n`;
+  });
+  const seen = new Set<string>();
+  const sentences = splitSentences(prose)
+    .map((sentence) => sentence.replace(/^\uE000(\d+)$/, (_, i: string) => blocks[Number(i)]))
+    .filter((sentence) => {
+      const key = sentence.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_RANKED_SENTENCES);
+  if (sentences.length <= 1) return previewContent(text, maxChars, kind);
+
+  const scores = rankSentences(sentences);
+  const order = sentences.map((_, i) => i).sort((a, b) => scores[b] - scores[a] || a - b);
+  // Sentences sharing no terms with the rest only hold the base rank: never use them as filler
+  const baseRank = (1 - TEXTRANK_DAMPING) / sentences.length;
+  const chosen = new Set<number>();
+  let used = 0;
+  for (const i of order) {
+    if (chosen.size > 0 && scores[i] <= baseRank * 1.001) break;
+    const cost = tokenizer.count(sentences[i]) + 1;
+    if (used + cost > maxTokens) continue;
+    chosen.add(i);
+    used += cost;
+  }
+  if (chosen.size === 0) return clipText(sentences[order[0]], maxChars);
+  return sentences.filter((_, i) => chosen.has(i)).join(" ");
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// IMPORTANCE SCORING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const BASE_IMPORTANCE: Record<BuiltinEntryType, number> = {
+  decision:    0.90,
+  user_intent: 0.80,
+  error:       0.75,
+  context:     0.50,
+  tool_result: 0.30,
+  ephemeral:   0.10,
+  unknown:     0.40,
+};
+
+/**
+ * Base importance score by message type.
+ * Higher = more important = retained longer.
+ * Custom types use their configured importance, or that of the type they extend.
+ */
+function getBaseImportance(type: EntryType, config: HippocampusConfig = DEFAULT_CONFIG): number {
+  return config.customTypes[type]?.importance ?? BASE_IMPORTANCE[getBaseType(type, config)];
+}
+
+/**
+ * Estimate token count from message content.
+ * Uses the given tokenizer (default: rough 4 chars per token approximation).
+ */
+function estimateTokens(msg: CompactionMessage, tokenizer: Tokenizer = HEURISTIC_TOKENIZER): number {
+  const content = extractContent(msg);
+  const jsonFallback = JSON.stringify(msg.content || "");
+  const text = content || jsonFallback;
+  return tokenizer.count(text);
+}
+
+/**
+ * Extract a preview of message content for summaries.
+ * Head previews are content-aware (see previewContent); tail and head_tail
+ * previews keep the end of the output (see ToolProfile.summarize).
+ */
+function extractPreview(msg: CompactionMessage, maxLen = 120, mode: SummarizeMode = "head"): string {
+  const content = extractContent(msg);
+  if (content.length <= maxLen) return content;
+
+  const trimmed = content.trimEnd();
+  switch (mode) {
+    case "tail":
+      return trimmed.length <= maxLen ? trimmed : "…" + trimmed.slice(-maxLen);
+    case "head_tail": {
+      const half = Math.floor(maxLen / 2);
+      return content.slice(0, half) + " … " + trimmed.slice(-half);
+    }
+    default:
+      return previewContent(content, maxLen);
+  }
+}
+
+/**
+ * Extract tool name from various message formats.
+ */
+function extractToolName(msg: CompactionMessage): string {
+  if (msg.toolName) return msg.toolName;
+  if (msg.name) return msg.name;
+  if (msg.tool_call_id) return msg.tool_call_id;
+  
+  if (Array.isArray(msg.content)) {
+    for (const block of msg.content) {
+      if (block.type === "tool_use" && block.name) return block.name;
+      if (block.type === "tool_result" && block.tool_use_id) return block.tool_use_id;
+    }
+  }
+  
+  return "unknown_tool";
+}
+
+/**
+ * Compute a stable entry id from message role, tool call ids, content and timestamp.
+ * The same message always hashes to the same id, so repeated compactions
+ * of an unchanged transcript resolve to the same sparse index records, while
+ * identical output from two calls (or at two times) gets two ids.
+ */
+function computeEntryId(msg: CompactionMessage): string {
+  const hash = createHash("sha256");
+  hash.update(msg.role || "");
+  hash.update("\u0000");
+  hash.update(getToolResultIds(msg).join(","));
+  hash.update("\u0000");
+  hash.update(extractContent(msg) || JSON.stringify(msg.content ?? ""));
+  if (msg.timestamp !== undefined) hash.update(`\u0000${msg.timestamp}`);
+  return `ctx_${hash.digest("hex").slice(0, 12)}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PRIORITY ASSIGNMENT
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse inline hippocampus tags: <!-- hippocampus: priority=critical persist=true -->
+ * Multiple tags in one message are merged; later keys win.
+ */
+function parseHippocampusTags(content: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const tag of content.matchAll(/<!--\s*hippocampus:([\s\S]*?)-->/gi)) {
+    for (const pair of tag[1].matchAll(/([\w.-]+)\s*=\s*([^\s,;]+)/g)) {
+      attributes[pair[1].toLowerCase()] = pair[2].toLowerCase();
+    }
+  }
+  return attributes;
+}
+
+/** Compiled priority markers, keyed by marker text */
+const markerPatternCache = new Map<string, RegExp>();
+
+/**
+ * Case-insensitive pattern for a priority marker. Ends that are word characters
+ * must sit on a word boundary, so "never" matches "Never push" but not "nevertheless".
+ */
+function getMarkerPattern(marker: string): RegExp {
+  let pattern = markerPatternCache.get(marker);
+  if (!pattern) {
+    const escaped = marker.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const start = /^[\p{L}\p{N}_]/u.test(marker) ? "(?<![\\p{L}\\p{N}_])" : "";
+    const end = /[\p{L}\p{N}_]$/u.test(marker) ? "(?![\\p{L}\\p{N}_])" : "";
+    pattern = new RegExp(start + escaped + end, "iu");
+    markerPatternCache.set(marker, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Assign a priority to a message.
+ *
+ * Precedence:
+ * 1. Inline tag (<!-- hippocampus: priority=… -->) — also marks encoding as manual
+ * 2. Content markers from config (user/assistant messages only; highest priority wins)
+ * 3. Per-type default from config
+ * 4. "normal"
+ */
+function assignPriority(
+  msg: CompactionMessage,
+  type: EntryType,
+  config: HippocampusConfig
+): { priority: Priority; encoding: Encoding } {
+  const content = extractContent(msg);
+
+  const tagged = parseHippocampusTags(content).priority as Priority | undefined;
+  if (tagged && PRIORITIES.includes(tagged)) {
+    return { priority: tagged, encoding: "manual" };
+  }
+
+  const baseType = getBaseType(type, config);
+  if (!isToolOutputType(baseType)) {
+    for (const priority of PRIORITIES) {
+      const markers = config.priorityMarkers[priority] ?? [];
+      if (markers.some((marker) => getMarkerPattern(marker).test(content))) {
+        return { priority, encoding: "auto" };
+      }
+    }
+  }
+
+  const priority = config.priorityByType[type] ?? config.customTypes[type]?.priority ?? config.priorityByType[baseType];
+  return { priority: priority ?? "normal", encoding: "auto" };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// LIFECYCLE POLICIES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Describe where a message came from: the tool name for tool results,
+ * message.<role> for everything else. Matched by policies' source.type.
+ */
+function getSourceType(msg: CompactionMessage, type: EntryType, config: HippocampusConfig = DEFAULT_CONFIG): string {
+  return isToolOutputType(getBaseType(type, config)) ? extractToolName(msg) : `message.${msg.role || "unknown"}`;
+}
+
+/**
+ * Check a single policy match clause against an entry.
+ */
+function matchesPolicy(
+  match: LifecyclePolicyMatch,
+  msg: CompactionMessage,
+  type: EntryType,
+  priority: Priority,
+  config: HippocampusConfig = DEFAULT_CONFIG
+): boolean {
+  const anyOf = (value: string | string[] | undefined, candidates: string[]): boolean => {
+    if (value === undefined) return true;
+    const wanted = (Array.isArray(value) ? value : [value]).map((v) => v.toLowerCase());
+    return candidates.some((c) => wanted.includes(c.toLowerCase()));
+  };
+
+  const baseType = getBaseType(type, config);
+  if (!anyOf(match.type, [type, baseType, toHippocampusEntryType(baseType)])) return false;
+  if (!anyOf(match["source.type"], [getSourceType(msg, type, config)])) return false;
+  if (!anyOf(match.priority, [priority])) return false;
+  if (!anyOf(match.role, [msg.role || "unknown"])) return false;
+
+  if (match.contains !== undefined) {
+    const content = extractContent(msg).toLowerCase();
+    const needles = Array.isArray(match.contains) ? match.contains : [match.contains];
+    if (!needles.some((needle) => content.includes(needle.toLowerCase()))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Evaluate the ordered policy list against one message.
+ * Every matching policy applies; when two set the same action, the later wins.
+ * Priority changes are visible to subsequent policies' priority matches.
+ */
+function applyLifecyclePolicies(
+  msg: CompactionMessage,
+  type: EntryType,
+  priority: Priority,
+  config: HippocampusConfig
+): PolicyOutcome {
+  const outcome: PolicyOutcome = { policies: [] };
+  let current = priority;
+
+  config.lifecyclePolicies.forEach((policy, i) => {
+    if (!matchesPolicy(policy.match ?? {}, msg, type, current, config)) return;
+
+    const { action } = policy;
+    outcome.policies.push(policy.name ?? `policy[${i}]`);
+    if (action.priority !== undefined) outcome.priority = current = action.priority;
+    if (action.decay_rate !== undefined) outcome.decayRate = action.decay_rate;
+    if (action.persist !== undefined) outcome.persist = action.persist;
+    if (action.expires_after_turns !== undefined) outcome.expiresAfterTurns = action.expires_after_turns;
+    if (action.compression !== undefined) outcome.compression = action.compression;
+  });
+
+  return outcome;
+}
+
+/**
+ * Decide which summary section an entry belongs to.
+ * Priority and policy overrides win over the retention thresholds.
+ */
+function getRetentionTier(entry: ScoredEntry, config: HippocampusConfig): RetentionTier {
+  if (entry.expired) return "expired";
+  if (entry.priority === "critical") return "pinned";
+  if (entry.compression === "none") return "kept";
+  if (entry.compression === "aggressive") return "sparse";
+  if (entry.retention < config.sparseThreshold) return "sparse";
+  if (entry.retention < config.compressThreshold) return "compressed";
+  return "kept";
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// DECAY FUNCTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Available decay curves. All return 1.0 at age 0 or rate 0.
+ *
+ * - exponential: e^(-λ·age) — the original hippocampus curve
+ * - power_law:   (1 + λ·age)^-0.5 — normative curve from whitepaper §14.2
+ * - linear:      max(0, 1 - λ·age) — reaches zero after 1/λ turns
+ * - step:        full strength for 1/λ turns, then zero (floors still apply)
+ */
+const DECAY_FUNCTIONS: Record<DecayFunctionName, DecayFunction> = {
+  exponential: (rate, age) => Math.exp(-rate * age),
+  power_law: (rate, age) => Math.pow(1 + rate * age, -0.5),
+  linear: (rate, age) => Math.max(0, 1 - rate * age),
+  step: (rate, age) => (rate * age < 1 ? 1 : 0),
+};
+
+/** Decay rate multipliers per priority (whitepaper §5.2) */
+const PRIORITY_DECAY_MODIFIERS: Record<Priority, number> = {
+  critical: 0,
+  high: 0.3,
+  normal: 1.0,
+  low: 2.0,
+};
+
+/** Decay rate multipliers per encoding (whitepaper §8.2) */
+const ENCODING_DECAY_MODIFIERS: Record<Encoding, number> = {
+  manual: 0.5,
+  auto: 1.0,
+};
+
+/**
+ * Resolve a decay curve by name, falling back to exponential for unknown names.
+ */
+function getDecayFunction(name: DecayFunctionName | undefined): DecayFunction {
+  return (name && DECAY_FUNCTIONS[name]) || DECAY_FUNCTIONS.exponential;
+}
+
+/**
+ * Calculate retention score after decay.
+ * 
+ * Formula: retention = max(floor, importance × decay(λ × priority_mod × encoding_mod, age))
+ * where decay is the configured curve (exponential by default: e^(-λ × age))
+ * 
+ * @param importance - Base importance score (0.0-1.0)
+ * @param age - Age in config.ageMode units (0 = newest)
+ * @param type - Entry type for per-type decay rate
+ * @param config - Configuration object
+ * @param modifiers - Priority (critical = no decay, low = 2×), encoding (manual = ½×), rate override
+ * @returns Retention score (0.0-1.0)
+ */
+function calculateRetention(
+  importance: number,
+  age: number,
+  type: EntryType,
+  config: HippocampusConfig,
+  modifiers: RetentionModifiers = {}
+): number {
+  const { priority = "normal", encoding = "auto" } = modifiers;
+  const baseRate = modifiers.decayRate ?? getTypeDecayRate(type, config);
+  const lambda = baseRate * PRIORITY_DECAY_MODIFIERS[priority] * ENCODING_DECAY_MODIFIERS[encoding];
+  const floor = getTypeFloor(type, config);
+  const raw = importance * getDecayFunction(config.decayFunction)(lambda, age);
+  return Math.max(floor, raw);
+}
+
+/**
+ * Calculate the current strength of a normative entry (whitepaper §14.2).
+ *
+ * effective_rate = rate × priority_mod × encoding_mod
+ * strength = max(floor, strength × decay(effective_rate, turns_since_access))
+ *
+ * The spec's curve is the power law, which is the default here; pass another
+ * curve name to compare against the same entry.
+ */
+function calculateStrength(
+  entry: HippocampusEntry,
+  currentTurn: number,
+  decayFunction: DecayFunctionName = "power_law"
+): number {
+  const turnsSinceAccess = Math.max(0, currentTurn - entry.decay.last_access);
+  const effectiveRate =
+    entry.decay.rate *
+    PRIORITY_DECAY_MODIFIERS[entry.modifiers.priority] *
+    ENCODING_DECAY_MODIFIERS[entry.modifiers.encoding];
+  const strength = entry.strength * getDecayFunction(decayFunction)(effectiveRate, turnsSinceAccess);
+  return Math.max(entry.decay.floor, strength);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SPARSE INDEX BUILDER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Build a sparse index line for a message.
+ * Format varies by type for optimal information density.
+ */
+function buildSparseIndexLine(entry: ScoredEntry, msg: CompactionMessage): string {
+  const preview = entry.contentPreview;
+  const priority = entry.priority && entry.priority !== "normal" ? ` !${entry.priority}` : "";
+  const ref = `${priority}${entry.id ? ` [ref:${entry.id}]` : ""}`;
+  const keyData = entry.keyData ? ` ${formatKeyData(entry.keyData)}` : "";
+  
+  if (entry.baseType && !isToolOutputType(entry.baseType)) {
+    return `[${entry.type.toUpperCase()}] "${clipText(preview, 100)}"${keyData}${ref}`;
+  }
+  
+  switch (entry.baseType ?? entry.type) {
+    case "tool_result": {
+      const toolName = entry.call ? describeToolCall(entry.call) : extractToolName(msg);
+      return `[TOOL:${toolName}] ${entry.tokenEstimate}tok → "${clipText(preview, 80)}"${keyData}${ref}`;
+    }
+    case "error": {
+      const toolName = entry.call ? describeToolCall(entry.call) : extractToolName(msg);
+      return `[ERROR:${toolName}] "${extractErrorLine(extractContent(msg), 100)}"${keyData}${ref}`;
+    }
+    case "user_intent":
+      return `[USER] "${clipText(preview, 100)}"${ref}`;
+    case "decision":
+      return `[DECISION] "${clipText(preview, 100)}"${ref}`;
+    case "ephemeral":
+      return `[EPHEMERAL] ${clipText(preview, 40)}${ref}`;
+    default:
+      return `[${entry.role.toUpperCase()}] ${clipText(preview, 80)}${ref}`;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TURN SEGMENTATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A user message opens a new turn — unless it only carries tool results
+ * (Anthropic-style transcripts send those back under the user role).
+ */
+function isTurnStart(msg: CompactionMessage): boolean {
+  if (msg.role !== "user") return false;
+  if (Array.isArray(msg.content) && msg.content.length > 0) {
+    return !msg.content.every((block) => block.type === "tool_result");
+  }
+  return true;
+}
+
+/**
+ * Assign every message to a conversation turn.
+ * A turn groups a user message with the assistant replies, tool calls and
+ * tool results that follow it; anything before the first user message is turn 0.
+ *
+ * @returns Turn number per message, parallel to `messages`
+ */
+function segmentTurns(messages: CompactionMessage[]): number[] {
+  let turn = 0;
+  let opened = false;
+  return messages.map((msg) => {
+    if (isTurnStart(msg)) {
+      if (opened) turn++;
+      opened = true;
+    }
+    return turn;
+  });
+}
+
+/**
+ * Parse a message timestamp (epoch ms or ISO string).
+ */
+function getMessageTimestamp(msg: CompactionMessage): number | undefined {
+  if (typeof msg.timestamp === "number" && Number.isFinite(msg.timestamp)) return msg.timestamp;
+  if (typeof msg.timestamp === "string") {
+    const parsed = Date.parse(msg.timestamp);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return undefined;
+}
+
+/**
+ * Compute the decay age of every message according to config.ageMode.
+ * 0 = newest. In time mode, messages without a timestamp fall back to turn age.
+ */
+function computeMessageAges(
+  messages: CompactionMessage[],
+  turns: number[],
+  config: HippocampusConfig
+): number[] {
+  const total = messages.length;
+  const lastTurn = turns.length > 0 ? turns[turns.length - 1] : 0;
+  const turnAge = (i: number): number => lastTurn - turns[i];
+
+  switch (config.ageMode) {
+    case "message":
+      return messages.map((_, i) => total - 1 - i);
+    case "time": {
+      const timestamps = messages.map(getMessageTimestamp);
+      const known = timestamps.filter((t): t is number => t !== undefined);
+      if (known.length === 0) return messages.map((_, i) => turnAge(i));
+      const newest = Math.max(...known);
+      const unitMs = Math.max(1, config.timeUnitMinutes) * 60_000;
+      return timestamps.map((t, i) => (t === undefined ? turnAge(i) : Math.max(0, (newest - t) / unitMs)));
+    }
+    case "turn":
+    default:
+      return messages.map((_, i) => turnAge(i));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ACCESS TRACKING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const ACCESS_LOG_VERSION = 1;
+const MAX_ACCESS_CUES = 2000;
+const MIN_CUE_LENGTH = 5;
+const MAX_CUE_LENGTH = 200;
+
+/** Words a cue is looked up by (see indexAccessCues) */
+const CUE_WORD_PATTERN = /[\p{L}\p{N}_]{3,}/gu;
+
+/**
+ * Collect the argument objects of every tool call in a message
+ * (Pi toolCall blocks, Anthropic tool_use blocks, OpenAI-style tool_calls).
+ */
+function extractToolCallArguments(msg: CompactionMessage): unknown[] {
+  return extractToolCalls(msg).map((call) => call.arguments);
+}
+
+/**
+ * Extract what a message touched: tool call arguments (paths, commands, patterns,
+ * quoted old text) plus `code spans` and "quoted passages" in its text.
+ * Cues are cut to their first line and capped so the log stays small.
+ * Pass calls to take arguments from only some of the message's tool calls.
+ */
+function extractAccessCues(msg: CompactionMessage, calls: ToolCallInfo[] = extractToolCalls(msg)): string[] {
+  const cues = new Set<string>();
+  const add = (value: string): void => {
+    const cue = value.trim().split("\n")[0].trim().slice(0, MAX_CUE_LENGTH);
+    if (cue.length >= MIN_CUE_LENGTH) cues.add(cue);
+  };
+
+  const visit = (value: unknown): void => {
+    if (typeof value === "string") add(value);
+    else if (Array.isArray(value)) value.forEach(visit);
+    else if (typeof value === "object" && value !== null) Object.values(value).forEach(visit);
+  };
+  calls.forEach((call) => visit(call.arguments));
+
+  const text = extractContent(msg);
+  for (const match of text.matchAll(/`([^`\n]+)`/g)) add(match[1]);
+  for (const match of text.matchAll(/"([^"\n]{12,})"/g)) add(match[1]);
+
+  return [...cues];
+}
+
+/**
+ * Create an empty access log.
+ */
+function createAccessLog(): AccessLog {
+  return { version: ACCESS_LOG_VERSION, turn: 0, cues: {}, ids: {} };
+}
+
+/**
+ * Load the access log. Missing or unreadable files start a fresh log.
+ */
+function loadAccessLog(accessPath: string): AccessLog {
+  if (!existsSync(accessPath)) return createAccessLog();
+
+  try {
+    const parsed = JSON.parse(readFileSync(accessPath, "utf-8")) as Partial<AccessLog>;
+    return {
+      version: ACCESS_LOG_VERSION,
+      ...(typeof parsed.session === "string" && { session: parsed.session }),
+      turn: typeof parsed.turn === "number" ? parsed.turn : 0,
+      cues: parsed.cues ?? {},
+      ids: parsed.ids ?? {},
+    };
+  } catch {
+    return createAccessLog();
+  }
+}
+
+/**
+ * Start a fresh log when it was recorded in another session, so cues from
+ * earlier sessions do not reinforce unrelated content. Unknown sessions keep the log.
+ *
+ * @returns True if the log was reset
+ */
+function scopeAccessLog(accessLog: AccessLog, session: string | undefined): boolean {
+  if (!session || accessLog.session === session) return false;
+  const reset = accessLog.session !== undefined || accessLog.turn > 0;
+  Object.assign(accessLog, createAccessLog(), { session });
+  return reset;
+}
+
+/**
+ * Write the access log atomically.
+ */
+function saveAccessLog(accessPath: string, accessLog: AccessLog): void {
+  writeJsonAtomic(accessPath, accessLog);
+}
+
+/**
+ * Record cues and entry ids as accessed in the current turn.
+ * Only the MAX_ACCESS_CUES most recently accessed cues are kept.
+ */
+function recordAccess(
+  accessLog: AccessLog,
+  access: { cues?: string[]; ids?: string[] },
+  now: number = Date.now()
+): void {
+  const touch = (map: Record<string, AccessRecord>, key: string): void => {
+    const existing = map[key];
+    if (existing?.turn === accessLog.turn) return;
+    map[key] = { turn: accessLog.turn, at: now, count: (existing?.count ?? 0) + 1 };
+  };
+  access.cues?.forEach((cue) => touch(accessLog.cues, cue));
+  access.ids?.forEach((id) => touch(accessLog.ids, id));
+
+  const cues = Object.keys(accessLog.cues);
+  if (cues.length > MAX_ACCESS_CUES) {
+    cues
+      .sort((a, b) => accessLog.cues[a].turn - accessLog.cues[b].turn)
+      .slice(0, cues.length - MAX_ACCESS_CUES)
+      .forEach((cue) => delete accessLog.cues[cue]);
+  }
+}
+
+/**
+ * Index the log's cues by their longest word, so a message only checks the cues
+ * whose word it contains instead of every cue. Cues without a word are keyed "".
+ */
+function indexAccessCues(accessLog: AccessLog): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const cue of Object.keys(accessLog.cues)) {
+    const word = (cue.match(CUE_WORD_PATTERN) ?? []).reduce((longest, w) => (w.length > longest.length ? w : longest), "");
+    index.set(word, [...(index.get(word) ?? []), cue]);
+  }
+  return index;
+}
+
+/**
+ * Find the most recent access of a message: its entry id was recalled, a cue
+ * appears in its content (containing the cue's longest word as a whole word),
+ * or a cue repeats one of its own tool call arguments.
+ * Tool results inherit the arguments of their own call (from pairToolCalls),
+ * or of the nearest preceding tool call when unpaired.
+ */
+function findLastAccess(
+  messages: CompactionMessage[],
+  i: number,
+  id: string,
+  accessLog: AccessLog,
+  call?: ToolCallRef,
+  cueIndex: Map<string, string[]> = indexAccessCues(accessLog)
+): AccessRecord | undefined {
+  const msg = messages[i];
+  const ownCues = new Set(extractAccessCues(msg));
+  if (call) {
+    const calls = extractToolCalls(messages[call.index]).filter((c) => (call.id ? c.id === call.id : c.name === call.name));
+    extractAccessCues(messages[call.index], calls).forEach((cue) => ownCues.add(cue));
+  } else if (classifyMessage(msg) === "tool_result") {
+    for (let j = i - 1; j >= 0; j--) {
+      if (extractToolCallArguments(messages[j]).length === 0) continue;
+      extractAccessCues(messages[j]).forEach((cue) => ownCues.add(cue));
+      break;
+    }
+  }
+
+  const content = extractContent(msg);
+  const candidates = new Set([...ownCues].filter((cue) => Object.hasOwn(accessLog.cues, cue)));
+  cueIndex.get("")?.forEach((cue) => candidates.add(cue));
+  for (const word of new Set(content.match(CUE_WORD_PATTERN))) {
+    cueIndex.get(word)?.forEach((cue) => candidates.add(cue));
+  }
+
+  let latest: AccessRecord | undefined = accessLog.ids[id];
+  for (const cue of candidates) {
+    const record = accessLog.cues[cue];
+    if (latest && record.turn <= latest.turn) continue;
+    if (ownCues.has(cue) || content.includes(cue)) latest = record;
+  }
+  return latest;
+}
+
+/**
+ * Age since an access, in the same units as computeMessageAges.
+ * Log turns count user turns like `turns` (from segmentTurns); in message mode
+ * the access is dated to the last message of its turn, and an access from before
+ * the transcript's first turn is older than every message (Infinity).
+ */
+function getAccessAge(
+  access: AccessRecord,
+  accessLog: AccessLog,
+  config: HippocampusConfig,
+  turns: number[] = [],
+  now: number = Date.now()
+): number {
+  if (config.ageMode === "time") {
+    return Math.max(0, (now - access.at) / (Math.max(1, config.timeUnitMinutes) * 60_000));
+  }
+  const turnsAgo = Math.max(0, accessLog.turn - access.turn);
+  if (config.ageMode !== "message") return turnsAgo;
+
+  const turn = (turns.length > 0 ? turns[turns.length - 1] : 0) - turnsAgo;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i] <= turn) return turns.length - 1 - i;
+  }
+  return Infinity;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// REFERENCE DETECTION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Largest importance bonus from later references */
+const REFERENCE_BONUS = 0.20;
+
+/** A reference loses half its weight every this many turns */
+const REFERENCE_HALF_LIFE_TURNS = 5;
+
+/** Most identifiers tracked per message */
+const MAX_IDENTIFIERS = 64;
+
+/** camelCase, PascalCase with an inner capital, snake_case and SCREAMING_CASE names */
+const CODE_IDENTIFIER_PATTERN = /\b(?:[a-z][a-z0-9]*[A-Z][\w$]*|[A-Z][a-z0-9]+[A-Z][\w$]*|[A-Za-z][A-Za-z0-9]*_[\w$]+)\b/g;
+/** Names followed by a call: loadConfig(, parse( */
+const CALL_NAME_PATTERN = /\b([A-Za-z_$][\w$]{2,})\(/g;
+/** Hex ids mixing letters and digits (git SHAs, hashes), ctx_ entry ids */
+const HEX_ID_PATTERN = /\b(?:ctx_[0-9a-f]{12}|(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{7,64})\b/g;
+/** Numbers distinctive enough to point back at an entry: ports, status codes, counts */
+const DISTINCT_NUMBER_PATTERN = /(?<![\w.])\d{3,}(?:\.\d+)?(?![\w.])/g;
+
 /**
- * Estimate token count from message content.
- * Uses rough 4 chars per token approximation.
+ * Identifiers a message mentions: file paths (and their base names), URLs,
+ * code names, function calls, ids and hashes, and numbers of three digits or more.
  */
-function estimateTokens(msg: CompactionMessage): number {
-  const content = extractContent(msg);
-  const jsonFallback = JSON.stringify(msg.content || "");
-  const text = content || jsonFallback;
-  return Math.ceil(text.length / 4);
+function extractIdentifiers(text: string): Set<string> {
+  const identifiers = new Set<string>();
+  const add = (value: string) => {
+    if (identifiers.size < MAX_IDENTIFIERS) identifiers.add(value);
+  };
+
+  for (const [url] of text.matchAll(URL_PATTERN)) add(url.replace(/[.,;:!?]+$/, ""));
+  const withoutUrls = text.replace(URL_PATTERN, " ");
+  for (const [, path] of withoutUrls.matchAll(PATH_PATTERN)) {
+    add(path);
+    add(path.slice(path.lastIndexOf("/") + 1));
+  }
+  for (const [name] of withoutUrls.matchAll(CODE_IDENTIFIER_PATTERN)) add(name);
+  for (const [, name] of withoutUrls.matchAll(CALL_NAME_PATTERN)) add(name);
+  for (const [id] of withoutUrls.matchAll(UUID_PATTERN)) add(id.toLowerCase());
+  for (const [id] of withoutUrls.matchAll(HEX_ID_PATTERN)) add(id);
+  for (const [number] of withoutUrls.matchAll(DISTINCT_NUMBER_PATTERN)) add(number);
+  return identifiers;
 }
 
 /**
- * Extract a preview of message content for summaries.
+ * Index the identifiers of every message (content plus tool call arguments)
+ * in one pass, so references are looked up instead of rescanning later messages.
  */
-function extractPreview(msg: CompactionMessage, maxLen = 120): string {
-  const content = extractContent(msg);
-  if (content.length <= maxLen) return content;
-  return content.slice(0, maxLen) + "…";
+function buildReferenceIndex(messages: CompactionMessage[]): ReferenceIndex {
+  const identifiers = messages.map((msg) => {
+    const args = extractToolCalls(msg).map((call) => JSON.stringify(call.arguments)).join("\n");
+    return extractIdentifiers(`${extractContent(msg)}\n${args}`);
+  });
+
+  const mentions = new Map<string, number[]>();
+  identifiers.forEach((ids, i) => {
+    for (const id of ids) {
+      const at = mentions.get(id);
+      if (at) at.push(i);
+      else mentions.set(id, [i]);
+    }
+  });
+  return { identifiers, mentions };
 }
 
 /**
- * Extract tool name from various message formats.
+ * Indices of later messages mentioning any identifier of message `index`.
+ * Messages in `exclude` (the entry's own tool call unit) do not count.
  */
-function extractToolName(msg: CompactionMessage): string {
-  if (msg.toolName) return msg.toolName;
-  if (msg.name) return msg.name;
-  if (msg.tool_call_id) return msg.tool_call_id;
-  
-  if (Array.isArray(msg.content)) {
-    for (const block of msg.content) {
-      if (block.type === "tool_use" && block.name) return block.name;
-      if (block.type === "tool_result" && block.tool_use_id) return block.tool_use_id;
+function findReferences(references: ReferenceIndex, index: number, exclude: Iterable<number> = []): number[] {
+  const skip = new Set(exclude);
+  const found = new Set<number>();
+  for (const id of references.identifiers[index] ?? []) {
+    for (const j of references.mentions.get(id) ?? []) {
+      if (j > index && !skip.has(j)) found.add(j);
     }
   }
-  
-  return "unknown_tool";
+  return [...found].sort((a, b) => a - b);
+}
+
+/**
+ * Importance bonus from later references: each referencing message weighs
+ * 1, halved every REFERENCE_HALF_LIFE_TURNS turns of age, and the total
+ * saturates towards REFERENCE_BONUS.
+ */
+function getReferenceBonus(referencedBy: number[], turns: number[], lastTurn: number): number {
+  const weight = referencedBy.reduce(
+    (sum, j) => sum + Math.pow(0.5, (lastTurn - turns[j]) / REFERENCE_HALF_LIFE_TURNS),
+    0
+  );
+  return REFERENCE_BONUS * (1 - Math.exp(-weight));
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// DECAY FUNCTION
+// ASSOCIATION GRAPH
 // ═══════════════════════════════════════════════════════════════════════════════
 
+/** Hashed feature space of the local text vectors */
+const ASSOCIATION_DIMENSIONS = 1024;
+
+/** Strongest links kept per entry */
+const MAX_ASSOCIATIONS = 5;
+
+/** Link strength of entries that mention the same file path */
+const SHARED_PATH_WEIGHT = 0.8;
+
+/** Paths mentioned by more entries than this are too common to link them */
+const MAX_PATH_FANOUT = 10;
+
+/** Features in more messages than this no longer propose similarity candidates */
+const MAX_FEATURE_FANOUT = 40;
+
+/** Texts with fewer features than this are too short to compare */
+const MIN_VECTOR_FEATURES = 3;
+
+/** 32-bit FNV-1a hash */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
 /**
- * Calculate retention score after exponential decay.
- * 
- * Formula: retention = max(floor, importance × e^(-λ × age))
- * 
- * @param importance - Base importance score (0.0-1.0)
- * @param age - Position from end (0 = newest, N = oldest)
- * @param type - Entry type for per-type decay rate
- * @param config - Configuration object
- * @returns Retention score (0.0-1.0)
+ * Term counts of a text in a hashed feature space: stemmed words (see
+ * sentenceTerms) and word bigrams. Needs no vocabulary or model.
  */
-function calculateRetention(
-  importance: number,
-  age: number,
-  type: EntryType,
+function hashTextFeatures(text: string): Map<number, number> {
+  const words = sentenceTerms(text);
+  const features = new Map<number, number>();
+  const add = (feature: string) => {
+    const bucket = hashFeature(feature) % ASSOCIATION_DIMENSIONS;
+    features.set(bucket, (features.get(bucket) ?? 0) + 1);
+  };
+  words.forEach((word, i) => {
+    add(word);
+    if (i > 0) add(`${words[i - 1]} ${word}`);
+  });
+  return features;
+}
+
+/**
+ * TF-IDF weight and L2-normalize hashed feature counts, so the dot product
+ * of two vectors is their cosine similarity. Short texts get an empty vector.
+ */
+function buildTextVectors(texts: string[]): Map<number, number>[] {
+  const counts = texts.map(hashTextFeatures);
+  const documentFrequency = new Map<number, number>();
+  for (const features of counts) {
+    for (const bucket of features.keys()) documentFrequency.set(bucket, (documentFrequency.get(bucket) ?? 0) + 1);
+  }
+
+  return counts.map((features) => {
+    if (features.size < MIN_VECTOR_FEATURES) return new Map();
+    const vector = new Map<number, number>();
+    for (const [bucket, count] of features) {
+      vector.set(bucket, count * Math.log(1 + texts.length / documentFrequency.get(bucket)!));
+    }
+    const norm = Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+    for (const [bucket, weight] of vector) vector.set(bucket, weight / norm);
+    return vector;
+  });
+}
+
+function cosineSimilarity(a: Map<number, number>, b: Map<number, number>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [bucket, weight] of small) dot += weight * (large.get(bucket) ?? 0);
+  return dot;
+}
+
+/**
+ * File paths a message mentions, in content or tool call arguments.
+ * A result also counts the key argument of the call that produced it.
+ */
+function extractPaths(msg: CompactionMessage, call?: ToolCallRef): Set<string> {
+  const args = extractToolCalls(msg).map((c) => JSON.stringify(c.arguments)).join("\n");
+  const text = `${extractContent(msg)}\n${args}\n${call?.args ?? ""}`.replace(URL_PATTERN, " ");
+  return new Set([...text.matchAll(PATH_PATTERN)].map(([, path]) => path.replace(/^\.\//, "")));
+}
+
+/**
+ * Link related messages: a tool call and its results, messages mentioning
+ * the same file path, and messages whose hashed TF-IDF vectors are at least
+ * associationThreshold similar. Similarity is only computed for messages that
+ * share a feature used by at most MAX_FEATURE_FANOUT earlier messages, so long
+ * sessions stay near-linear. Each message keeps its strongest links.
+ *
+ * @returns Associations per message index, strongest first
+ */
+function buildAssociationGraph(
+  messages: CompactionMessage[],
+  pairing: ToolPairing,
   config: HippocampusConfig
-): number {
-  const lambda = config.decayRates[type];
-  const floor = config.retentionFloor[type] ?? 0;
-  const raw = importance * Math.exp(-lambda * age);
-  return Math.max(floor, raw);
+): Association[][] {
+  const links = messages.map(() => new Map<number, Association>());
+  const link = (a: number, b: number, weight: number, reason: AssociationReason) => {
+    if (a === b) return;
+    for (const [from, to] of [[a, b], [b, a]]) {
+      const existing = links[from].get(to);
+      if (!existing || existing.weight < weight) links[from].set(to, { index: to, weight, reason });
+    }
+  };
+
+  for (const [callIndex, results] of pairing.results) {
+    for (const resultIndex of results) link(callIndex, resultIndex, 1, "tool_call");
+  }
+
+  const byPath = new Map<string, number[]>();
+  messages.forEach((msg, i) => {
+    for (const path of extractPaths(msg, pairing.calls.get(i))) byPath.set(path, [...(byPath.get(path) ?? []), i]);
+  });
+  for (const indices of byPath.values()) {
+    if (indices.length > MAX_PATH_FANOUT) continue;
+    for (let x = 0; x < indices.length; x++) {
+      for (let y = x + 1; y < indices.length; y++) link(indices[x], indices[y], SHARED_PATH_WEIGHT, "path");
+    }
+  }
+
+  // Candidates come from an inverted index of features instead of all pairs;
+  // a feature shared by too many messages is too common to propose a pair on its own
+  const vectors = buildTextVectors(messages.map((msg) => extractContent(msg)));
+  const postings = new Map<number, number[]>();
+  for (let i = 0; i < vectors.length; i++) {
+    const candidates = new Set<number>();
+    for (const bucket of vectors[i].keys()) {
+      const list = postings.get(bucket) ?? [];
+      if (list.length > MAX_FEATURE_FANOUT) continue;
+      list.forEach((j) => candidates.add(j));
+      list.push(i);
+      postings.set(bucket, list);
+    }
+    for (const j of candidates) {
+      const similarity = cosineSimilarity(vectors[i], vectors[j]);
+      if (similarity >= config.associationThreshold) link(j, i, Math.min(1, similarity), "similarity");
+    }
+  }
+
+  return links.map((edges) =>
+    [...edges.values()].sort((a, b) => b.weight - a.weight || a.index - b.index).slice(0, MAX_ASSOCIATIONS)
+  );
+}
+
+/**
+ * Associated entries keep each other alive: an entry's retention is raised to
+ * at least weight × associationStrength × an associate's retention. Uses the
+ * retentions from before the pass, so boosts do not chain; expired entries
+ * neither give nor receive a boost.
+ */
+function applyAssociations(scored: ScoredEntry[], graph: Association[][], config: HippocampusConfig): void {
+  const retentions = scored.map((entry) => (entry.expired ? 0 : entry.retention));
+  scored.forEach((entry, i) => {
+    const edges = graph[i] ?? [];
+    if (edges.length === 0) return;
+    entry.associations = edges.map((edge) => scored[edge.index].id);
+    if (entry.expired) return;
+
+    const lifted = Math.max(...edges.map((edge) => edge.weight * config.associationStrength * retentions[edge.index]));
+    if (lifted > entry.retention) entry.retention = lifted;
+  });
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// SPARSE INDEX BUILDER
+// MESSAGE SCORING
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
- * Build a sparse index line for a message.
- * Format varies by type for optimal information density.
+ * Score all messages with importance and decay calculations.
+ * 
+ * Applies modifiers:
+ * - Recency bonus: Last 5 entries get +0.15
+ * - Size penalty: Very large messages get -0.15 to -0.25
+ * - Reference bonus: Up to +0.20 when later messages mention the entry's
+ *   identifiers, more for more and for more recent references
  */
-function buildSparseIndexLine(entry: ScoredEntry, msg: CompactionMessage): string {
-  const preview = entry.contentPreview;
-  
-  switch (entry.type) {
-    case "tool_result": {
-      const toolName = extractToolName(msg);
-      return `[TOOL:${toolName}] ${entry.tokenEstimate}tok → "${preview.slice(0, 80)}"`;
+function scoreMessages(
+  messages: CompactionMessage[],
+  config: HippocampusConfig,
+  accessLog?: AccessLog,
+  tokenizer: Tokenizer = HEURISTIC_TOKENIZER
+): ScoredEntry[] {
+  const turns = segmentTurns(messages);
+  const ages = computeMessageAges(messages, turns, config);
+  const lastTurn = turns.length > 0 ? turns[turns.length - 1] : 0;
+  const pairing = pairToolCalls(messages);
+  const references = buildReferenceIndex(messages);
+  const cueIndex = accessLog ? indexAccessCues(accessLog) : undefined;
+  const scored: ScoredEntry[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const id = computeEntryId(messages[i]);
+    // Results carry the name of the call they answer (transcripts often only have its id)
+    const call = pairing.calls.get(i);
+    const msg = call ? { ...messages[i], toolName: call.name } : messages[i];
+    const { type, baseType, rule } = classifyEntry(msg, config);
+    const tool = getEntryToolProfile(msg, type, config);
+    const keyData = isToolOutputType(baseType) ? extractKeyData(extractContent(msg)) : undefined;
+    let importance = tool?.importance ?? getBaseImportance(type, config);
+    const tokenEstimate = estimateTokens(msg, tokenizer);
+
+    // Decay runs from the last access, not from creation: re-reading an entry reinforces it
+    const access = accessLog ? findLastAccess(messages, i, id, accessLog, call, cueIndex) : undefined;
+    const age = access && accessLog ? Math.min(ages[i], getAccessAge(access, accessLog, config, turns)) : ages[i];
+
+    // ── Modifiers ──
+
+    // Recency bonus: entries younger than 5 age units get +0.15
+    if (age < 5) {
+      importance = Math.min(1.0, importance + 0.15);
     }
-    case "user_intent":
-      return `[USER] "${preview.slice(0, 100)}"`;
-    case "decision":
-      return `[DECISION] "${preview.slice(0, 100)}"`;
-    case "ephemeral":
-      return `[EPHEMERAL] ${preview.slice(0, 40)}`;
+
+    // Size penalty: huge tool results are less likely to be fully relevant
+    if (tokenEstimate > 10000) {
+      importance = Math.max(0.1, importance - 0.15);
+    }
+    if (tokenEstimate > 30000) {
+      importance = Math.max(0.1, importance - 0.10);
+    }
+
+    // Reference bonus: later messages mention this entry's paths, names, ids or numbers
+    // (its own call or results restating them do not count)
+    const callIndex = call?.index ?? i;
+    const referencedBy = findReferences(references, i, [callIndex, ...(pairing.results.get(callIndex) ?? [])]);
+    importance = Math.min(1.0, importance + getReferenceBonus(referencedBy, turns, lastTurn));
+
+    const assigned = assignPriority(msg, type, config);
+    const outcome = applyLifecyclePolicies(msg, type, assigned.priority, config);
+    const priority = outcome.priority ?? assigned.priority;
+    const encoding = assigned.encoding;
+    // Hard expiry is always counted in turns, whatever the age mode
+    const expired = outcome.expiresAfterTurns !== undefined && lastTurn - turns[i] >= outcome.expiresAfterTurns;
+    const decayRate = outcome.decayRate ?? tool?.decayRate;
+    const compression = outcome.compression ?? (tool?.summarize === "pointer" ? "aggressive" : undefined);
+    const retention = expired
+      ? 0
+      : calculateRetention(importance, age, type, config, { priority, encoding, decayRate });
+
+    scored.push({
+      id,
+      index: i,
+      turn: turns[i],
+      type,
+      ...(baseType !== type && { baseType }),
+      ...(rule && { rule }),
+      importance,
+      retention,
+      priority,
+      encoding,
+      ...(access && { lastAccess: access.turn }),
+      ...(referencedBy.length > 0 && { references: referencedBy.length }),
+      ...(outcome.policies.length > 0 && {
+        policies: outcome.policies,
+        persist: outcome.persist,
+        expiresAfterTurns: outcome.expiresAfterTurns,
+        expired,
+      }),
+      ...(decayRate !== undefined && { decayRate }),
+      ...(compression !== undefined && { compression }),
+      ...(tool?.summarize && tool.summarize !== "head" && { summarize: tool.summarize }),
+      ...(call && { call }),
+      ...(keyData && { keyData }),
+      tokenEstimate,
+      summary: "",
+      role: msg.role || "unknown",
+      contentPreview: extractPreview(msg, 120, tool?.summarize)
+        || extractToolCalls(msg).map((c) => describeToolCall({ name: c.name, args: summarizeToolArguments(c.arguments) })).join(", "),
+    });
+  }
+
+  // A strong decision keeps the tool result it was based on alive
+  if (config.associationStrength > 0) {
+    applyAssociations(scored, buildAssociationGraph(messages, pairing, config), config);
+  }
+
+  // A call and its results are one unit: they share the strongest retention and priority,
+  // including a lift from associations that reached only one of them
+  for (const [callIndex, results] of pairing.results) {
+    const unit = [callIndex, ...results].map((j) => scored[j]).filter((entry) => !entry.expired);
+    const retention = Math.max(...unit.map((entry) => entry.retention));
+    const priority = PRIORITIES.find((p) => unit.some((entry) => entry.priority === p)) ?? "normal";
+    for (const entry of unit) {
+      entry.retention = retention;
+      entry.priority = priority;
+    }
+
+    scored[callIndex].results = results;
+    if (pairing.answered.has(callIndex) && !extractContent(messages[callIndex]).trim()) {
+      scored[callIndex].merged = true;
+    }
+  }
+
+  return scored;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SUMMARY BUDGET
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** How much of an entry's value survives in each tier */
+const TIER_VALUE: Record<"dropped" | "sparse" | "compressed" | "kept", number> = {
+  dropped: 0,
+  sparse: 0.3,
+  compressed: 0.5,
+  kept: 1.0,
+};
+
+const TIER_LADDER = ["dropped", "sparse", "compressed", "kept"] as const;
+
+/**
+ * Render one entry as it appears in its summary section.
+ */
+function formatSummaryEntry(entry: ScoredEntry, msg: CompactionMessage, tier: SummaryTier): string {
+  const call = entry.call ? ` ${describeToolCall(entry.call)}` : "";
+  switch (tier) {
+    case "pinned":
+      return `### [${entry.type}]${call} !critical\n${extractPreview(msg, 500, entry.summarize)}`;
+    case "kept": {
+      const priority = entry.priority !== "normal" ? ` !${entry.priority}` : "";
+      return `### [${entry.type}]${call} (r=${entry.retention.toFixed(2)})${priority}\n${extractPreview(msg, 500, entry.summarize)}`;
+    }
+    case "compressed": {
+      const digest = entry.digest ? `\n  ${entry.digest}` : "";
+      return `• (r=${entry.retention.toFixed(2)}) ${buildSparseIndexLine(entry, msg)}${digest}`;
+    }
+    case "sparse":
+      return buildSparseIndexLine(entry, msg);
     default:
-      return `[${entry.role.toUpperCase()}] ${preview.slice(0, 80)}`;
+      return "";
+  }
+}
+
+/**
+ * Token cost of an entry in a given tier (as rendered, not as original).
+ */
+function summaryEntryCost(
+  entry: ScoredEntry,
+  msg: CompactionMessage,
+  tier: SummaryTier,
+  tokenizer: Tokenizer = HEURISTIC_TOKENIZER
+): number {
+  return tokenizer.count(formatSummaryEntry(entry, msg, tier));
+}
+
+/**
+ * Choose a tier for every entry so the entry sections fit in `budget` tokens.
+ *
+ * Pinned, expired and compression "none" entries are fixed. Every other entry starts
+ * dropped and is upgraded one step at a time (dropped → sparse → compressed → kept),
+ * always taking the affordable upgrade with the best retention gained per token.
+ * compression "aggressive" caps an entry at sparse; sparse lines also respect
+ * maxSparseIndexTokens.
+ *
+ * @returns Tier per entry, parallel to `scored`
+ */
+function allocateSummaryBudget(
+  scored: ScoredEntry[],
+  messages: CompactionMessage[],
+  config: HippocampusConfig,
+  budget: number,
+  tokenizer: Tokenizer = HEURISTIC_TOKENIZER
+): SummaryTier[] {
+  const tiers: SummaryTier[] = scored.map((entry) => {
+    const tier = getRetentionTier(entry, config);
+    return tier === "pinned" || tier === "expired" || entry.compression === "none" ? tier : "dropped";
+  });
+
+  let remaining = budget;
+  let sparseRemaining = config.maxSparseIndexTokens;
+  scored.forEach((entry, i) => {
+    if (tiers[i] !== "dropped") remaining -= summaryEntryCost(entry, messages[entry.index], tiers[i], tokenizer);
+  });
+
+  const costs = scored.map((entry) => {
+    const msg = messages[entry.index];
+    return {
+      dropped: 0,
+      sparse: summaryEntryCost(entry, msg, "sparse", tokenizer),
+      compressed: summaryEntryCost(entry, msg, "compressed", tokenizer),
+      kept: summaryEntryCost(entry, msg, "kept", tokenizer),
+    };
+  });
+
+  for (;;) {
+    let best = -1;
+    let bestDensity = -1;
+
+    for (let i = 0; i < scored.length; i++) {
+      const current = tiers[i];
+      if (current !== "dropped" && current !== "sparse" && current !== "compressed") continue;
+      if (current === "sparse" && scored[i].compression === "aggressive") continue;
+      if (current !== "dropped" && scored[i].compression === "none") continue;
+
+      const next = TIER_LADDER[TIER_LADDER.indexOf(current) + 1];
+      const extra = costs[i][next] - costs[i][current];
+      if (extra > remaining) continue;
+      // Sparse lines share their own cap
+      if (next === "sparse" && costs[i].sparse > sparseRemaining) continue;
+
+      const gain = Math.max(scored[i].retention, 0.01) * (TIER_VALUE[next] - TIER_VALUE[current]);
+      const density = gain / Math.max(extra, 1);
+      if (density > bestDensity) {
+        best = i;
+        bestDensity = density;
+      }
+    }
+
+    if (best === -1) break;
+
+    const current = tiers[best] as "dropped" | "sparse" | "compressed";
+    const next = TIER_LADDER[TIER_LADDER.indexOf(current) + 1];
+    remaining -= costs[best][next] - costs[best][current];
+    if (next === "sparse") sparseRemaining -= costs[best].sparse;
+    if (current === "sparse") sparseRemaining += costs[best].sparse;
+    tiers[best] = next;
+  }
+
+  return tiers;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SUMMARIZER
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Longest excerpt of one entry sent to a model summarizer */
+const SUMMARIZER_INPUT_CHARS = 4000;
+
+/** Excerpt characters per model call; larger request sets are split into batches */
+const SUMMARIZER_BATCH_CHARS = 24000;
+
+const SUMMARIZER_PROMPT = [
+  "You compress entries of an AI coding agent's context window that are about to be evicted.",
+  "For every <entry>, write one line: `<id>: <summary>`, staying within its max_tokens.",
+  "Keep concrete facts the agent may need later: file paths, names, values, decisions, outcomes.",
+  "Output only those lines, in the same order, with no other text.",
+].join("\n");
+
+/**
+ * Offline, deterministic summarizer (see summarizeExtractive). buildHippocampusSummary
+ * applies it directly; this wrapper exposes it through the Summarizer interface.
+ */
+const EXTRACTIVE_SUMMARIZER: Summarizer = {
+  name: "extractive",
+  summarize: async (requests) => requests.map((request) => summarizeExtractive(request.text, request.maxTokens)),
+};
+
+/**
+ * Compressed entries worth summarizing: content larger than the summary
+ * budget, excluding errors (listed under Known Failures) and merged calls.
+ */
+function needsDigest(entry: ScoredEntry, config: HippocampusConfig): boolean {
+  return !entry.merged
+    && (entry.baseType ?? entry.type) !== "error"
+    && getRetentionTier(entry, config) === "compressed"
+    && entry.tokenEstimate > config.summaryMaxTokens;
+}
+
+/**
+ * Summary requests for the entries that need a digest (see needsDigest).
+ */
+function collectSummaryRequests(
+  scored: ScoredEntry[],
+  messages: CompactionMessage[],
+  config: HippocampusConfig
+): SummaryRequest[] {
+  return scored
+    .filter((entry) => needsDigest(entry, config))
+    .map((entry) => {
+      const msg = messages[entry.index];
+      const label = entry.call
+        ? describeToolCall(entry.call)
+        : isToolOutputType(entry.baseType ?? getBaseType(entry.type, config)) ? extractToolName(msg) : entry.role;
+      return { id: entry.id, type: entry.type, label, text: extractContent(msg), maxTokens: config.summaryMaxTokens };
+    });
+}
+
+/**
+ * Run a summarizer over the compressed entries and store the results as digests.
+ * Digests are only assigned once every batch succeeded; a failure or timeout
+ * throws and leaves the entries untouched.
+ *
+ * @returns Number of entries that received a digest
+ */
+async function applySummarizer(
+  scored: ScoredEntry[],
+  messages: CompactionMessage[],
+  summarizer: Summarizer,
+  config: HippocampusConfig,
+  signal?: AbortSignal
+): Promise<number> {
+  const requests = collectSummaryRequests(scored, messages, config);
+  if (requests.length === 0) return 0;
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`summarizer timed out after ${config.summarizerTimeoutMs}ms`));
+    }, config.summarizerTimeoutMs);
+  });
+
+  try {
+    const summaries = await Promise.race([summarizer.summarize(requests, controller.signal), timeout]);
+    const byId = new Map(scored.map((entry) => [entry.id, entry]));
+    let applied = 0;
+    requests.forEach((request, i) => {
+      const summary = summaries[i]?.replace(/\s+/g, " ").trim();
+      const entry = byId.get(request.id);
+      if (!summary || !entry) return;
+      entry.digest = clipText(summary, request.maxTokens * 4);
+      applied++;
+    });
+    return applied;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+/** Render requests as <entry> blocks for a model prompt */
+function formatSummarizerInput(requests: SummaryRequest[]): string {
+  return requests.map((request) => {
+    const text = request.text.length > SUMMARIZER_INPUT_CHARS ? request.text.slice(0, SUMMARIZER_INPUT_CHARS) + "\n…" : request.text;
+    return `<entry id="${request.id}" type="${request.type}" source="${request.label}" max_tokens="${request.maxTokens}">\n${text}\n</entry>`;
+  }).join("\n\n");
+}
+
+/** Read `<id>: <summary>` lines back, in request order */
+function parseSummarizerOutput(output: string, requests: SummaryRequest[]): (string | undefined)[] {
+  const lines = new Map<string, string>();
+  for (const line of output.split("\n")) {
+    const match = line.match(/^\W*(ctx_[0-9a-f]+)\W*:\s*(.+)$/);
+    if (match && !lines.has(match[1])) lines.set(match[1], match[2].trim());
   }
+  return requests.map((request) => lines.get(request.id));
+}
+
+/**
+ * Summarizer backed by the host agent's model through @mariozechner/pi-ai.
+ * The package is imported lazily, so the extension still loads where it is
+ * missing; the import error then surfaces as a summarizer failure.
+ */
+function createModelSummarizer(ctx: ExtensionContext, modelRef = ""): Summarizer {
+  return {
+    name: "model",
+    async summarize(requests, signal) {
+      // A malformed ref fails the run, so entries keep their extractive digests
+      if (!MODEL_REF_PATTERN.test(modelRef)) throw new Error(`summarizerModel must be provider/id, got "${modelRef}"`);
+      const ai = await import("@mariozechner/pi-ai");
+      const slash = modelRef.indexOf("/");
+      const model = modelRef ? ai.getModel(modelRef.slice(0, slash), modelRef.slice(slash + 1)) : ctx.model;
+      if (!model) throw new Error(modelRef ? `unknown summarizer model ${modelRef}` : "no active model");
+      const apiKey = await ctx.modelRegistry?.getApiKey(model);
+
+      const batches: SummaryRequest[][] = [[]];
+      let batchChars = 0;
+      for (const request of requests) {
+        const chars = Math.min(request.text.length, SUMMARIZER_INPUT_CHARS);
+        if (batchChars + chars > SUMMARIZER_BATCH_CHARS && batches[batches.length - 1].length > 0) {
+          batches.push([]);
+          batchChars = 0;
+        }
+        batches[batches.length - 1].push(request);
+        batchChars += chars;
+      }
+
+      const summaries: (string | undefined)[] = [];
+      for (const batch of batches) {
+        const response = await ai.complete(model, {
+          systemPrompt: SUMMARIZER_PROMPT,
+          messages: [{ role: "user", content: [{ type: "text", text: formatSummarizerInput(batch) }], timestamp: Date.now() }],
+        }, {
+          apiKey,
+          maxTokens: batch.reduce((sum, request) => sum + request.maxTokens + 20, 0),
+          signal,
+        });
+        if (response.stopReason === "error" || response.stopReason === "aborted") {
+          throw new Error(response.errorMessage ?? `model summarizer ${response.stopReason}`);
+        }
+        const text = response.content.map((block) => (block.type === "text" ? block.text ?? "" : "")).join("\n");
+        summaries.push(...parseSummarizerOutput(text, batch));
+      }
+      return summaries;
+    },
+  };
+}
+
+/**
+ * Pick the summarizer to run before the summary is built. Only "model" needs
+ * one: extractive digests are computed by buildHippocampusSummary itself,
+ * and also fill in for entries a model summarizer left without one.
+ */
+function resolveSummarizer(config: HippocampusConfig, ctx?: ExtensionContext): Summarizer | undefined {
+  return config.summarizer === "model" && ctx ? createModelSummarizer(ctx, config.summarizerModel) : undefined;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
-// MESSAGE SCORING
+// SUMMARY BUILDER
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
- * Score all messages with importance and decay calculations.
- * 
- * Applies modifiers:
- * - Recency bonus: Last 5 entries get +0.15
- * - Size penalty: Very large messages get -0.15 to -0.25
- * - Reference bonus: Messages referenced later get +0.20
+ * Decide the final tier of every entry: Known Failures, the budget allocation
+ * (when targetSummaryTokens is set) and the sparse index cap.
  */
-function scoreMessages(
+function planSummary(
+  scored: ScoredEntry[],
   messages: CompactionMessage[],
-  config: HippocampusConfig
-): ScoredEntry[] {
-  const total = messages.length;
-  const scored: ScoredEntry[] = [];
-
-  for (let i = 0; i < messages.length; i++) {
-    const msg = messages[i];
-    const type = classifyMessage(msg);
-    let importance = getBaseImportance(type);
-    const age = total - 1 - i; // 0 = newest
-    const tokenEstimate = estimateTokens(msg);
-
-    // ── Modifiers ──
-
-    // Recency bonus: last 5 entries get +0.15
-    if (age < 5) {
-      importance = Math.min(1.0, importance + 0.15);
+  config: HippocampusConfig,
+  previousSummary?: string,
+  tokenizer: Tokenizer = HEURISTIC_TOKENIZER
+): SummaryPlan {
+  // Extract goals from user_intent entries
+  const goals: string[] = [];
+  for (const entry of scored) {
+    if ((entry.baseType ?? entry.type) === "user_intent" && entry.retention >= config.sparseThreshold) {
+      const goalLine = entry.contentPreview.slice(0, 150).replace(/\n/g, " ");
+      if (goalLine.length > 10) {
+        goals.push(`- ${goalLine}`);
+      }
     }
+  }
 
-    // Size penalty: huge tool results are less likely to be fully relevant
-    if (tokenEstimate > 10000) {
-      importance = Math.max(0.1, importance - 0.15);
-    }
-    if (tokenEstimate > 30000) {
-      importance = Math.max(0.1, importance - 0.10);
-    }
+  // Remembered errors get one line per distinct failure instead of a tier;
+  // pure tool-call messages are rendered through their results' lines
+  const failures = new Map<string, { label: string; error: string; count: number; id: string }>();
+  const failed: ScoredEntry[] = [];
+  const remembered = scored.filter((entry) => {
+    if (entry.merged) return false;
+    if ((entry.baseType ?? entry.type) !== "error") return true;
+    const tier = getRetentionTier(entry, config);
+    if (tier !== "kept" && tier !== "compressed") return true;
 
-    // Reference bonus: check if content appears in later messages
-    const preview = extractPreview(msg, 50);
-    const isReferenced = messages.slice(i + 1).some((later) => {
-      const laterContent = extractContent(later);
-      return laterContent.includes(preview.slice(0, 30));
-    });
-    if (isReferenced) {
-      importance = Math.min(1.0, importance + 0.20);
-    }
+    const msg = messages[entry.index];
+    const label = entry.call ? describeToolCall(entry.call) : extractToolName(msg);
+    const error = extractErrorLine(extractContent(msg));
+    const key = `${label}\u0000${error.toLowerCase().replace(/\s+/g, " ")}`;
+    const count = (failures.get(key)?.count ?? 0) + 1;
+    failures.set(key, { label, error, count, id: entry.id });
+    failed.push(entry);
+    return false;
+  });
+  const failureLines = [...failures.values()].map(({ label, error, count, id }) =>
+    `- ${label}: ${error}${count > 1 ? ` (×${count})` : ""} [ref:${id}]`
+  );
+  const failureTokens = tokenizer.count(failureLines.join("\n"));
 
-    const retention = calculateRetention(importance, age, type, config);
+  // Compressed entries carry a digest: the summarizer's when it ran, else an extractive one
+  const entries = config.summarizer === "none" ? remembered : remembered.map((entry) =>
+    entry.digest || !needsDigest(entry, config)
+      ? entry
+      : { ...entry, digest: summarizeExtractive(extractContent(messages[entry.index]), config.summaryMaxTokens, tokenizer) }
+  );
 
-    scored.push({
-      index: i,
-      type,
-      importance,
-      retention,
-      tokenEstimate,
-      summary: "",
-      role: msg.role || "unknown",
-      contentPreview: extractPreview(msg),
-    });
-  }
+  // With a budget, goals, prior context and failures are paid for first; entries share the rest
+  const reservedTokens = tokenizer.count(goals.join("\n")) + tokenizer.count(previousSummary ?? "") + failureTokens;
+  const tiers = config.targetSummaryTokens > 0
+    ? allocateSummaryBudget(entries, messages, config, Math.max(0, config.targetSummaryTokens - reservedTokens), tokenizer)
+    : entries.map((entry) => getRetentionTier(entry, config));
 
-  return scored;
+  // Sparse lines beyond the index cap are dropped too
+  let sparseTokens = 0;
+  entries.forEach((entry, i) => {
+    if (tiers[i] !== "sparse") return;
+    const tokens = summaryEntryCost(entry, messages[entry.index], "sparse", tokenizer);
+    if (sparseTokens + tokens <= config.maxSparseIndexTokens) sparseTokens += tokens;
+    else tiers[i] = "dropped";
+  });
+
+  return { goals, failureLines, failures: failed, entries, tiers };
 }
 
-// ═══════════════════════════════════════════════════════════════════════════════
-// SUMMARY BUILDER
-// ═══════════════════════════════════════════════════════════════════════════════
+/**
+ * Where each scored entry ends up in a plan. Tool-call messages rendered
+ * through their results take the place of their first result.
+ */
+function getPlannedTiers(scored: ScoredEntry[], plan: SummaryPlan): PlannedTier[] {
+  const byIndex = new Map<number, PlannedTier>(plan.entries.map((entry, i) => [entry.index, plan.tiers[i]]));
+  plan.failures.forEach((entry) => byIndex.set(entry.index, "failure"));
+  return scored.map((entry) =>
+    byIndex.get(entry.index) ?? (entry.results ? byIndex.get(entry.results[0]) : undefined) ?? "dropped"
+  );
+}
 
 /**
  * Build the hippocampus compaction summary.
@@ -431,68 +4200,74 @@ function scoreMessages(
  * Structure:
  * - Goal: Extracted from user_intent messages
  * - Prior Context: Previous summary if available
+ * - Known Failures: Remembered errors, identical ones merged
  * - Active Context: High retention entries (full content)
  * - Compressed: Mid retention entries (summary lines)
  * - Sparse Index: Low retention entries (pointers only)
+ *
+ * Pass the plan the entries were archived by so both agree on every tier.
  */
 function buildHippocampusSummary(
   scored: ScoredEntry[],
   messages: CompactionMessage[],
   config: HippocampusConfig,
-  previousSummary?: string
+  previousSummary?: string,
+  tokenizer: Tokenizer = HEURISTIC_TOKENIZER,
+  plan: SummaryPlan = planSummary(scored, messages, config, previousSummary, tokenizer)
 ): string {
+  const { goals, failureLines, entries, tiers } = plan;
+  const failureTokens = tokenizer.count(failureLines.join("\n"));
+  const pinned: string[] = [];
   const sparse: string[] = [];
   const compressed: string[] = [];
   const kept: string[] = [];
 
+  let pinnedTokens = 0;
   let sparseTokens = 0;
   let compressedTokens = 0;
   let keptTokens = 0;
   let droppedCount = 0;
+  let expiredCount = 0;
 
-  for (const entry of scored) {
+  entries.forEach((entry, i) => {
     const msg = messages[entry.index];
-    const line = buildSparseIndexLine(entry, msg);
+    const tier = tiers[i];
+    const text = formatSummaryEntry(entry, msg, tier);
+    const tokens = tokenizer.count(text);
 
-    if (entry.retention < config.sparseThreshold) {
+    if (tier === "expired") {
+      // Hard-expired by a lifecycle policy — archived, but not carried forward
+      expiredCount++;
+    } else if (tier === "dropped") {
+      // Did not fit the summary budget or the sparse index cap — archived, reachable via recall
+      droppedCount++;
+    } else if (tier === "pinned") {
+      // Critical — never decays, always carried forward in full
+      pinned.push(text);
+      pinnedTokens += tokens;
+    } else if (tier === "sparse") {
       // Sparse index only — just a pointer
-      const lineTokens = Math.ceil(line.length / 4);
-      if (sparseTokens + lineTokens <= config.maxSparseIndexTokens) {
-        sparse.push(line);
-        sparseTokens += lineTokens;
-      } else {
-        droppedCount++;
-      }
-    } else if (entry.retention < config.compressThreshold) {
+      sparse.push(text);
+      sparseTokens += tokens;
+    } else if (tier === "compressed") {
       // Compressed — keep a summary line with retention score
-      compressed.push(`• (r=${entry.retention.toFixed(2)}) ${line}`);
-      compressedTokens += Math.ceil(line.length / 4);
+      compressed.push(text);
+      compressedTokens += tokens;
     } else {
-      // Full retention — keep the actual content
-      const content = extractPreview(msg, 500);
-      kept.push(`### [${entry.type}] (r=${entry.retention.toFixed(2)})\n${content}`);
-      keptTokens += entry.tokenEstimate;
+      // Full retention — keep the actual content (preview)
+      kept.push(text);
+      keptTokens += tokens;
     }
-  }
+  });
 
   // ── Assemble summary ──
   const parts: string[] = [];
 
-  // Extract goals from user_intent entries
-  const goals: string[] = [];
-  for (const entry of scored) {
-    if (entry.type === "user_intent" && entry.retention >= config.sparseThreshold) {
-      const goalLine = entry.contentPreview.slice(0, 150).replace(/\n/g, " ");
-      if (goalLine.length > 10) {
-        goals.push(`- ${goalLine}`);
-      }
-    }
-  }
-
   // Header with metadata
   parts.push("# hippocampus.md Compaction");
-  parts.push(`<!-- decay_λ=${JSON.stringify(config.decayRates)} sparse_threshold=${config.sparseThreshold} compress_threshold=${config.compressThreshold} -->`);
-  parts.push(`<!-- entries: ${scored.length} | sparse: ${sparse.length} | compressed: ${compressed.length} | kept: ${kept.length} | dropped: ${droppedCount} -->`);
+  const budget = config.targetSummaryTokens > 0 ? ` target_tokens=${config.targetSummaryTokens}` : "";
+  parts.push(`<!-- decay_fn=${config.decayFunction} decay_λ=${JSON.stringify(config.decayRates)} sparse_threshold=${config.sparseThreshold} compress_threshold=${config.compressThreshold}${budget} -->`);
+  parts.push(`<!-- entries: ${scored.length} | sparse: ${sparse.length} | compressed: ${compressed.length} | kept: ${kept.length} | pinned: ${pinned.length} | failures: ${failureLines.length} | dropped: ${droppedCount} | expired: ${expiredCount} -->`);
   parts.push("");
 
   // Goals section
@@ -509,6 +4284,20 @@ function buildHippocampusSummary(
     parts.push("");
   }
 
+  // Pinned (critical priority)
+  if (pinned.length > 0) {
+    parts.push("## Pinned (critical — never decays)");
+    parts.push(pinned.join("\n\n"));
+    parts.push("");
+  }
+
+  // Known failures (deduplicated errors)
+  if (failureLines.length > 0) {
+    parts.push("## Known Failures (already tried — do not repeat blindly)");
+    parts.push(failureLines.join("\n"));
+    parts.push("");
+  }
+
   // Active context (high retention)
   if (kept.length > 0) {
     parts.push("## Active Context (high retention)");
@@ -528,14 +4317,20 @@ function buildHippocampusSummary(
     parts.push("## Sparse Index (decayed — pointers only)");
     parts.push(sparse.join("\n"));
     if (droppedCount > 0) {
-      parts.push(`\n<!-- ${droppedCount} additional entries dropped (sparse index full) -->`);
+      parts.push(`\n<!-- ${droppedCount} additional entries dropped (${config.targetSummaryTokens > 0 ? "summary budget" : "sparse index"} full) -->`);
     }
     parts.push("");
   }
 
+  // Pattern completion hint
+  if (compressed.length > 0 || sparse.length > 0) {
+    parts.push(`_Use the \`${RECALL_TOOL_NAME}\` tool with a [ref:…] id or a cue to restore an entry's full content._`);
+    parts.push("");
+  }
+
   // Stats footer
   const totalOriginalTokens = scored.reduce((sum, e) => sum + e.tokenEstimate, 0);
-  const totalNewTokens = sparseTokens + compressedTokens + keptTokens;
+  const totalNewTokens = pinnedTokens + failureTokens + sparseTokens + compressedTokens + keptTokens;
   const ratio = totalOriginalTokens > 0 
     ? (totalOriginalTokens / Math.max(totalNewTokens, 1)).toFixed(1) 
     : "∞";
@@ -545,6 +4340,459 @@ function buildHippocampusSummary(
   return parts.join("\n");
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// COMPACTION SIMULATION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** Count scored entries per planned tier, plus the totals the compaction log reports */
+function computeCompactionStats(scored: ScoredEntry[], plan: SummaryPlan): CompactionStats {
+  const tiers = getPlannedTiers(scored, plan);
+  const count = (tier: PlannedTier) => tiers.filter((t) => t === tier).length;
+  return {
+    total: scored.length,
+    sparse: count("sparse"),
+    compressed: count("compressed"),
+    kept: count("kept"),
+    pinned: count("pinned"),
+    expired: count("expired"),
+    dropped: count("dropped"),
+    failures: count("failure"),
+    errors: scored.filter((e) => (e.baseType ?? e.type) === "error").length,
+    policyMatches: scored.filter((e) => e.policies?.length).length,
+    reinforced: scored.filter((e) => e.lastAccess !== undefined).length,
+    totalTokens: scored.reduce((sum, e) => sum + e.tokenEstimate, 0),
+  };
+}
+
+/**
+ * Run the compaction pipeline over a transcript without a session: score the
+ * messages and build the summary the extension would return. Nothing is
+ * archived, no access log reinforces entries, and the model summarizer is
+ * skipped, so compressed entries keep their extractive lines.
+ */
+function simulateCompaction(
+  messages: CompactionMessage[],
+  config: HippocampusConfig,
+  tokenizer: Tokenizer = HEURISTIC_TOKENIZER,
+  previousSummary?: string
+): CompactionSimulation {
+  const scored = scoreMessages(messages, config, undefined, tokenizer);
+  const plan = planSummary(scored, messages, config, previousSummary, tokenizer);
+  const summary = buildHippocampusSummary(scored, messages, config, previousSummary, tokenizer, plan);
+  return {
+    scored,
+    tiers: getPlannedTiers(scored, plan),
+    stats: computeCompactionStats(scored, plan),
+    summary,
+    summaryTokens: tokenizer.count(summary),
+    tokenizer: tokenizer.name,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// ENTRY SCHEMA (NORMATIVE)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const HIPPOCAMPUS_ENTRY_TYPES: readonly HippocampusEntryType[] = ["tool_result", "message", "state", "memory"];
+const PRIORITIES: readonly Priority[] = ["critical", "high", "normal", "low"];
+const ENCODINGS: readonly Encoding[] = ["manual", "auto"];
+
+/** Options for building a HippocampusEntry from a message */
+interface HippocampusEntryOptions {
+  /** Turn the message was captured in. Default: 0 */
+  turn?: number;
+  /** Existing score for the message (skips re-classification) */
+  scored?: ScoredEntry;
+  /** Config supplying decay rate and floor. Default: DEFAULT_CONFIG */
+  config?: HippocampusConfig;
+  /** Whether the original can be re-fetched. Default: true (it is archived) */
+  retrievable?: boolean;
+}
+
+/**
+ * Map a fine-grained classification onto the normative entry types.
+ * Decisions are task state; everything conversational is a message.
+ */
+function toHippocampusEntryType(type: EntryType): HippocampusEntryType {
+  switch (type) {
+    case "tool_result":
+    case "error":
+      return "tool_result";
+    case "decision":
+      return "state";
+    default:
+      return "message";
+  }
+}
+
+/**
+ * Build a normative HippocampusEntry from a compaction message.
+ */
+function createHippocampusEntry(
+  msg: CompactionMessage,
+  options: HippocampusEntryOptions = {}
+): HippocampusEntry {
+  const config = options.config ?? DEFAULT_CONFIG;
+  const turn = options.turn ?? 0;
+  const type = options.scored?.type ?? classifyEntry(msg, config).type;
+  const id = options.scored?.id ?? computeEntryId(msg);
+  const strength = options.scored?.retention ?? getBaseImportance(type, config);
+  const keyData = options.scored
+    ? options.scored.keyData
+    : isToolOutputType(getBaseType(type, config)) ? extractKeyData(extractContent(msg)) : undefined;
+
+  return {
+    id,
+    type: toHippocampusEntryType(getBaseType(type, config)),
+    source: {
+      type: getSourceType(msg, type, config),
+      ref: id,
+      turn,
+      retrievable: options.retrievable ?? true,
+    },
+    summary: options.scored?.contentPreview ?? extractPreview(msg),
+    ...(keyData && { key_data: { ...keyData } }),
+    strength: Math.min(1, Math.max(0, strength)),
+    decay: {
+      rate: options.scored?.decayRate ?? getTypeDecayRate(type, config),
+      floor: getTypeFloor(type, config),
+      last_access: turn,
+    },
+    modifiers: {
+      priority: options.scored?.priority ?? "normal",
+      encoding: options.scored?.encoding ?? "auto",
+      associations: options.scored?.associations ?? [],
+    },
+    lifecycle: {
+      created: turn,
+      ...(options.scored?.expiresAfterTurns !== undefined && { expires: turn + options.scored.expiresAfterTurns }),
+      persist: options.scored?.persist ?? false,
+    },
+  };
+}
+
+/**
+ * Validate an unknown value against the HippocampusEntry schema.
+ * Reports every problem found rather than stopping at the first.
+ */
+function validateHippocampusEntry(value: unknown): EntryValidationResult {
+  const errors: string[] = [];
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+  const isTurn = (v: unknown): boolean => typeof v === "number" && Number.isInteger(v) && v >= 0;
+  const isUnit = (v: unknown): boolean => typeof v === "number" && v >= 0 && v <= 1;
+
+  if (!isObject(value)) {
+    return { valid: false, errors: ["entry must be an object"] };
+  }
+
+  if (typeof value.id !== "string" || value.id.length === 0) errors.push("id must be a non-empty string");
+  if (!HIPPOCAMPUS_ENTRY_TYPES.includes(value.type as HippocampusEntryType)) {
+    errors.push(`type must be one of ${HIPPOCAMPUS_ENTRY_TYPES.join(", ")}`);
+  }
+
+  const source = value.source;
+  if (!isObject(source)) {
+    errors.push("source must be an object");
+  } else {
+    if (typeof source.type !== "string") errors.push("source.type must be a string");
+    if (typeof source.ref !== "string") errors.push("source.ref must be a string");
+    if (!isTurn(source.turn)) errors.push("source.turn must be a non-negative integer");
+    if (typeof source.retrievable !== "boolean") errors.push("source.retrievable must be a boolean");
+  }
+
+  if (typeof value.summary !== "string") errors.push("summary must be a string");
+  if (value.key_data !== undefined && !isObject(value.key_data)) errors.push("key_data must be an object");
+  if (!isUnit(value.strength)) errors.push("strength must be a number between 0 and 1");
+
+  const decay = value.decay;
+  if (!isObject(decay)) {
+    errors.push("decay must be an object");
+  } else {
+    if (typeof decay.rate !== "number" || decay.rate < 0) errors.push("decay.rate must be a non-negative number");
+    if (!isUnit(decay.floor)) errors.push("decay.floor must be a number between 0 and 1");
+    if (!isTurn(decay.last_access)) errors.push("decay.last_access must be a non-negative integer");
+  }
+
+  const modifiers = value.modifiers;
+  if (!isObject(modifiers)) {
+    errors.push("modifiers must be an object");
+  } else {
+    if (!PRIORITIES.includes(modifiers.priority as Priority)) {
+      errors.push(`modifiers.priority must be one of ${PRIORITIES.join(", ")}`);
+    }
+    if (!ENCODINGS.includes(modifiers.encoding as Encoding)) {
+      errors.push(`modifiers.encoding must be one of ${ENCODINGS.join(", ")}`);
+    }
+    if (!Array.isArray(modifiers.associations) || !modifiers.associations.every((a) => typeof a === "string")) {
+      errors.push("modifiers.associations must be an array of strings");
+    }
+  }
+
+  const lifecycle = value.lifecycle;
+  if (!isObject(lifecycle)) {
+    errors.push("lifecycle must be an object");
+  } else {
+    if (!isTurn(lifecycle.created)) errors.push("lifecycle.created must be a non-negative integer");
+    if (lifecycle.expires !== undefined && !isTurn(lifecycle.expires)) {
+      errors.push("lifecycle.expires must be a non-negative integer");
+    } else if (isTurn(lifecycle.expires) && isTurn(lifecycle.created) && (lifecycle.expires as number) < (lifecycle.created as number)) {
+      errors.push("lifecycle.expires must not precede lifecycle.created");
+    }
+    if (typeof lifecycle.persist !== "boolean") errors.push("lifecycle.persist must be a boolean");
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Type guard form of validateHippocampusEntry.
+ */
+function isHippocampusEntry(value: unknown): value is HippocampusEntry {
+  return validateHippocampusEntry(value).valid;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// SPARSE INDEX STORE
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const SPARSE_INDEX_VERSION = 2;
+
+/**
+ * Resolve a configured path against the workspace (absolute paths pass through).
+ */
+function resolveWorkspacePath(workspaceDir: string, path: string): string {
+  return isAbsolute(path) ? path : join(workspaceDir, path);
+}
+
+/**
+ * Load the sparse index from disk.
+ * Missing or unreadable files yield an empty index — the archive is a cache,
+ * never a reason to fail compaction.
+ */
+function loadSparseIndex(indexPath: string): SparseIndex {
+  const empty: SparseIndex = { version: SPARSE_INDEX_VERSION, updatedAt: new Date(0).toISOString(), entries: {} };
+  if (!existsSync(indexPath)) return empty;
+
+  try {
+    const parsed = JSON.parse(readFileSync(indexPath, "utf-8")) as Partial<SparseIndex>;
+    if (!parsed || typeof parsed.entries !== "object" || parsed.entries === null) return empty;
+
+    // Drop records that no longer match the schema (e.g. written by an older version)
+    const entries: Record<string, SparseIndexRecord> = {};
+    for (const [id, record] of Object.entries(parsed.entries)) {
+      if (isHippocampusEntry(record) && typeof record.content === "string") {
+        entries[id] = record;
+      }
+    }
+    return {
+      version: SPARSE_INDEX_VERSION,
+      updatedAt: parsed.updatedAt ?? empty.updatedAt,
+      entries,
+    };
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename), creating parent directories.
+ */
+function writeJsonAtomic(path: string, data: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Write the sparse index atomically.
+ */
+function saveSparseIndex(indexPath: string, index: SparseIndex): void {
+  writeJsonAtomic(indexPath, index);
+}
+
+/**
+ * Evict the least recently archived entries beyond the configured cap.
+ */
+function pruneSparseIndex(index: SparseIndex, maxEntries: number): number {
+  const ids = Object.keys(index.entries);
+  if (ids.length <= maxEntries) return 0;
+
+  // Entries flagged persist by a lifecycle policy are never evicted
+  const evict = ids
+    .filter((id) => !index.entries[id].lifecycle.persist)
+    .sort((a, b) => index.entries[a].updatedAt.localeCompare(index.entries[b].updatedAt))
+    .slice(0, ids.length - maxEntries);
+  for (const id of evict) {
+    delete index.entries[id];
+  }
+  return evict.length;
+}
+
+/**
+ * Archive every sparse/compressed/expired/dropped entry's original content into the index,
+ * plus every error listed under Known Failures, any entry a lifecycle policy flagged to
+ * persist and any output a tool profile marks as not retrievable (re-running the tool
+ * would not reproduce it).
+ * Tiers come from the summary plan when given (the budget can demote any entry),
+ * else from the retention thresholds.
+ * Re-archiving an existing id refreshes its score and summary but keeps createdAt.
+ *
+ * @returns Number of entries written
+ */
+function archiveEntries(
+  index: SparseIndex,
+  scored: ScoredEntry[],
+  messages: CompactionMessage[],
+  config: HippocampusConfig,
+  plan?: SummaryPlan
+): number {
+  const now = new Date().toISOString();
+  const planned = new Map(plan?.entries.map((entry, i) => [entry.id, plan.tiers[i]]));
+  let archived = 0;
+
+  for (const entry of scored) {
+    const msg = entry.call ? { ...messages[entry.index], toolName: entry.call.name } : messages[entry.index];
+    const tier = planned.get(entry.id) ?? getRetentionTier(entry, config);
+    const reproducible = getEntryToolProfile(msg, entry.type, config)?.retrievable ?? true;
+    // Kept errors are listed under Known Failures as one line with a ref
+    const failure = tier === "kept" && (entry.baseType ?? entry.type) === "error";
+    if ((tier === "kept" || tier === "pinned") && !entry.persist && reproducible && !failure) continue;
+
+    const existing = index.entries[entry.id];
+    const hippocampusEntry = createHippocampusEntry(msg, { turn: entry.turn, scored: entry, config });
+    index.entries[entry.id] = {
+      ...hippocampusEntry,
+      summary: buildSparseIndexLine(entry, msg),
+      category: entry.type,
+      role: entry.role,
+      toolName: isToolOutputType(entry.baseType ?? getBaseType(entry.type, config)) ? extractToolName(msg) : undefined,
+      tokenEstimate: entry.tokenEstimate,
+      content: extractContent(msg) || JSON.stringify(msg.content ?? ""),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    archived++;
+  }
+
+  pruneSparseIndex(index, config.maxIndexEntries);
+  index.version = SPARSE_INDEX_VERSION;
+  index.updatedAt = now;
+  return archived;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PATTERN COMPLETION (RECALL)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const RECALL_TOOL_NAME = "hippocampus_recall";
+
+/**
+ * Split a cue into lowercase search terms (Unicode-aware, so Cyrillic cues work).
+ */
+function tokenizeCue(cue: string): string[] {
+  const terms = cue.toLowerCase().match(/[\p{L}\p{N}_./-]{2,}/gu) ?? [];
+  return [...new Set(terms)];
+}
+
+/**
+ * Score an archived record against cue terms.
+ * Summary hits weigh double: the pointer line is what the agent saw.
+ */
+function scoreRecallCandidate(record: SparseIndexRecord, terms: string[]): number {
+  if (terms.length === 0) return 0;
+  const summary = record.summary.toLowerCase();
+  const content = record.content.toLowerCase();
+
+  let score = 0;
+  for (const term of terms) {
+    if (summary.includes(term)) score += 2;
+    else if (content.includes(term)) score += 1;
+  }
+  return score / (terms.length * 2);
+}
+
+/**
+ * Pattern completion: resolve an id or a free-text cue to archived content.
+ *
+ * Id lookups return exactly that entry. Cue lookups rank all archived entries
+ * by term overlap (ties broken by strength) and fill the token budget in order;
+ * the last entry is truncated rather than skipped.
+ */
+function recallEntries(
+  index: SparseIndex,
+  query: RecallQuery,
+  config: HippocampusConfig,
+  tokenizer: Tokenizer = HEURISTIC_TOKENIZER
+): RecallMatch[] {
+  const budget = Math.min(query.maxTokens ?? config.recallMaxTokens, config.recallMaxTokens);
+  let candidates: Array<{ record: SparseIndexRecord; score: number }> = [];
+
+  const id = query.id?.trim().replace(/^\[ref:/, "").replace(/\]$/, "");
+  if (id) {
+    const record = index.entries[id];
+    if (record) candidates.push({ record, score: 1 });
+  } else if (query.cue) {
+    const terms = tokenizeCue(query.cue);
+    candidates = Object.values(index.entries)
+      .map((record) => ({ record, score: scoreRecallCandidate(record, terms) }))
+      .filter((c) => c.score > 0)
+      .sort((a, b) => b.score - a.score || b.record.strength - a.record.strength);
+  }
+
+  const matches: RecallMatch[] = [];
+  let used = 0;
+  for (const { record, score } of candidates) {
+    const remaining = budget - used;
+    if (remaining <= 0) break;
+
+    const tokens = tokenizer.count(record.content);
+    const truncated = tokens > remaining;
+    // Cut proportionally: close enough for a budget, and avoids re-tokenizing prefixes
+    const content = truncated
+      ? record.content.slice(0, Math.floor((record.content.length * remaining) / tokens)) + "…"
+      : record.content;
+    matches.push({ record, score, content, truncated });
+    used += Math.min(tokens, remaining);
+  }
+
+  return matches;
+}
+
+/**
+ * Check the recall tool's arguments, which arrive unchecked from the model.
+ * Returns the query, or the error message to send back.
+ */
+function readRecallQuery(params: Record<string, unknown> | undefined): RecallQuery | string {
+  const { id, cue, maxTokens } = params ?? {};
+  if (id !== undefined && typeof id !== "string") return "id must be a string.";
+  if (cue !== undefined && typeof cue !== "string") return "cue must be a string.";
+  if (maxTokens !== undefined && !(typeof maxTokens === "number" && Number.isFinite(maxTokens) && maxTokens > 0)) {
+    return "maxTokens must be a positive number.";
+  }
+  if (!id && !cue) return "Provide an entry id or a cue.";
+  return { id, cue, maxTokens };
+}
+
+/**
+ * Render recall matches as tool output text.
+ */
+function formatRecallResult(matches: RecallMatch[], query: RecallQuery): string {
+  if (matches.length === 0) {
+    const what = query.id ? `id "${query.id}"` : `cue "${query.cue ?? ""}"`;
+    return `No archived hippocampus entries match ${what}.`;
+  }
+
+  return matches
+    .map(({ record, content, truncated }) => {
+      const tool = record.toolName ? ` ${record.toolName}` : "";
+      const note = truncated ? " (truncated to fit token budget)" : "";
+      return `## ${record.id} [${record.category}${tool}] ${record.tokenEstimate}tok${note}\n${content}`;
+    })
+    .join("\n\n");
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // EXTENSION ENTRY POINT
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -558,12 +4806,24 @@ function buildHippocampusSummary(
 export default function hippocampus(pi: ExtensionAPI): void {
   // Load config from workspace
   const workspaceDir = process.cwd();
-  const config = loadConfig(workspaceDir);
+  const loaded = resolveConfig(workspaceDir);
+  reportConfigIssues(loaded.issues);
+  let config = loaded.config;
+  // Issues of the settings in use, so a reload is only rejected for new errors
+  let configIssues = loaded.issues;
+  if (!config.enabled) {
+    if (config.debug) console.log("[hippocampus] disabled by config (enabled: false)");
+    return;
+  }
   
-  // Resolve log path
-  const logPath = config.logFile.startsWith("/") 
-    ? config.logFile 
-    : join(workspaceDir, config.logFile);
+  // Resolve log and sparse index paths (again after every config reload)
+  let logPath = resolveWorkspacePath(workspaceDir, config.logFile);
+  let indexPath = resolveWorkspacePath(workspaceDir, config.indexFile);
+  let accessPath = resolveWorkspacePath(workspaceDir, config.accessFile);
+  const accessLog = loadAccessLog(accessPath);
+
+  // Token accounting; re-resolved per compaction once the active model is known
+  let tokenizer = resolveTokenizer(config, undefined, workspaceDir);
 
   // Logger function
   const log = (msg: string, data?: unknown): void => {
@@ -583,8 +4843,115 @@ export default function hippocampus(pi: ExtensionAPI): void {
 
   log("🧠 hippocampus.md extension loaded", { config: { ...config, decayRates: "..." } });
 
+  // Config reloads happen between events; their notices wait for the next context
+  let uiContext: ExtensionContext | undefined;
+  const pendingNotices: Array<[string, "info" | "warning"]> = [];
+  const notify = (message: string, type: "info" | "warning"): void => {
+    if (uiContext) uiContext.ui.notify(message, type);
+    else pendingNotices.push([message, type]);
+  };
+  const bindContext = (ctx: ExtensionContext | undefined): void => {
+    if (scopeAccessLog(accessLog, ctx?.sessionManager?.getSessionId?.())) {
+      log("📍 New session, access log reset", { session: accessLog.session });
+    }
+    if (!ctx?.ui) return;
+    uiContext = ctx;
+    pendingNotices.splice(0).forEach(([message, type]) => ctx.ui.notify(message, type));
+  };
+
+  // ── Config hot reload ──
+  let watcher: ConfigWatcher | undefined;
+  const startWatching = (): void => {
+    watcher?.close();
+    watcher = config.hotReload ? watchConfigFiles(getConfigFiles(workspaceDir, config), applyReload) : undefined;
+  };
+  const applyReload = (): void => {
+    const result = reloadConfig(workspaceDir, config, {}, configIssues);
+    const issues = result.issues.map(({ source, issue }) => `${source}: ${formatConfigIssue(issue)}`);
+
+    if (result.status === "rejected") {
+      const errors = result.newErrors;
+      log(`⚠️ Config reload rejected, keeping previous settings`, { issues });
+      notify(
+        `hippocampus: config change rejected — ${formatConfigIssue(errors[0].issue)}` +
+          `${errors.length > 1 ? ` (+${errors.length - 1} more)` : ""}; keeping previous settings`,
+        "warning"
+      );
+      return;
+    }
+    configIssues = result.issues;
+    if (result.status === "unchanged") {
+      log(`🔄 Config files changed, effective settings unchanged`, issues.length > 0 ? { issues } : undefined);
+      return;
+    }
+
+    const filesChanged = getConfigFiles(workspaceDir, result.config).join() !== getConfigFiles(workspaceDir, config).join();
+    config = result.config;
+    logPath = resolveWorkspacePath(workspaceDir, config.logFile);
+    indexPath = resolveWorkspacePath(workspaceDir, config.indexFile);
+    accessPath = resolveWorkspacePath(workspaceDir, config.accessFile);
+    tokenizer = resolveTokenizer(config, uiContext?.model?.id, workspaceDir);
+    if (filesChanged || !config.hotReload) startWatching();
+
+    const changes = result.changes.map(formatConfigChange);
+    log(`🔄 Config reloaded`, { changes, ...(issues.length > 0 && { issues }) });
+    const shown = result.changes.slice(0, 3).map((change) => change.path).join(", ");
+    const more = result.changes.length > 3 ? `, +${result.changes.length - 3} more` : "";
+    notify(`🧠 hippocampus: config reloaded (${shown}${more})`, "info");
+  };
+  startWatching();
+
+  // ── Tool: hippocampus_recall ──
+  pi.registerTool({
+    name: RECALL_TOOL_NAME,
+    label: "Hippocampus Recall",
+    description:
+      "Restore the full original content of decayed context entries. " +
+      "Pass the id from a [ref:ctx_…] tag in the compaction summary, or a free-text cue " +
+      "describing what you need (file name, command, topic).",
+    parameters: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Entry id from a [ref:…] tag, e.g. ctx_3f9a1c0b7e21" },
+        cue: { type: "string", description: "Free-text cue to search archived entries" },
+        maxTokens: { type: "number", description: `Token budget for returned content (max ${config.recallMaxTokens})` },
+      },
+    },
+    async execute(_toolCallId: string, params: Record<string, unknown>, _signal?: AbortSignal, _onUpdate?: unknown, ctx?: ExtensionContext): Promise<ToolResult> {
+      bindContext(ctx);
+      const query = readRecallQuery(params);
+      if (typeof query === "string") {
+        return { content: [{ type: "text", text: query }], isError: true };
+      }
+
+      const index = loadSparseIndex(indexPath);
+      const matches = recallEntries(index, query, config, tokenizer);
+      log(`🔁 Recall`, { id: query.id, cue: query.cue, matches: matches.map((m) => m.record.id) });
+
+      // Recalling is an access: restored entries start decaying afresh
+      if (matches.length > 0) {
+        try {
+          matches.forEach((m) => (m.record.decay.last_access = accessLog.turn));
+          recordAccess(accessLog, { ids: matches.map((m) => m.record.id) });
+          saveSparseIndex(indexPath, index);
+          saveAccessLog(accessPath, accessLog);
+        } catch (accessError) {
+          const message = accessError instanceof Error ? accessError.message : String(accessError);
+          log(`⚠️ Failed to record recall access`, { error: message });
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: formatRecallResult(matches, query) }],
+        details: { matches: matches.map((m) => ({ id: m.record.id, score: m.score, truncated: m.truncated })) },
+      };
+    },
+  });
+
   // ── Hook: session_before_compact ──
   pi.on("session_before_compact", async (event: CompactionEvent, ctx: ExtensionContext): Promise<CompactionResult | void> => {
+    bindContext(ctx);
+    if (!config.enabled) return; // Disabled by a config reload — default compaction
     const { preparation } = event;
     const {
       messagesToSummarize,
@@ -597,7 +4964,8 @@ export default function hippocampus(pi: ExtensionAPI): void {
     const allMessages = [...messagesToSummarize, ...turnPrefixMessages] as CompactionMessage[];
     const totalMessages = allMessages.length;
 
-    log(`🔬 Compaction triggered`, { messages: totalMessages, tokensBefore });
+    tokenizer = resolveTokenizer(config, ctx.model?.id, workspaceDir);
+    log(`🔬 Compaction triggered`, { messages: totalMessages, tokensBefore, tokenizer: tokenizer.name });
 
     if (totalMessages === 0) {
       log("⚠️ No messages to process, falling back to default");
@@ -606,21 +4974,40 @@ export default function hippocampus(pi: ExtensionAPI): void {
 
     try {
       // Phase 1: Score all messages
-      const scored = scoreMessages(allMessages, config);
-
-      const stats = {
-        total: scored.length,
-        sparse: scored.filter(e => e.retention < config.sparseThreshold).length,
-        compressed: scored.filter(e => e.retention >= config.sparseThreshold && e.retention < config.compressThreshold).length,
-        kept: scored.filter(e => e.retention >= config.compressThreshold).length,
-        totalTokens: scored.reduce((sum, e) => sum + e.tokenEstimate, 0),
-      };
+      const scored = scoreMessages(allMessages, config, accessLog, tokenizer);
 
-      log(`📊 Scoring complete`, stats);
+      log(`📊 Scoring complete`, { entries: scored.length });
 
-      // Phase 2: Build summary
-      const summary = buildHippocampusSummary(scored, allMessages, config, previousSummary);
-      const summaryTokens = Math.ceil(summary.length / 4);
+      // Phase 2: Summarize compressed entries; on failure they keep their plain lines
+      const summarizer = resolveSummarizer(config, ctx);
+      if (summarizer) {
+        try {
+          const summarized = await applySummarizer(scored, allMessages, summarizer, config, event.signal);
+          log(`✍️ Compressed entries summarized`, { summarizer: summarizer.name, summarized });
+        } catch (summarizerError) {
+          const message = summarizerError instanceof Error ? summarizerError.message : String(summarizerError);
+          log(`⚠️ Summarizer failed, keeping plain compressed lines`, { summarizer: summarizer.name, error: message });
+        }
+      }
+
+      // Phase 3: Plan the final tiers and archive every entry not carried in full,
+      // so the pointers of sparse, compressed and dropped entries stay resolvable
+      const plan = planSummary(scored, allMessages, config, previousSummary, tokenizer);
+      const stats = computeCompactionStats(scored, plan);
+      log(`📊 Tiers planned`, stats);
+      try {
+        const index = loadSparseIndex(indexPath);
+        const archived = archiveEntries(index, scored, allMessages, config, plan);
+        saveSparseIndex(indexPath, index);
+        log(`🗄️ Sparse index updated`, { archived, total: Object.keys(index.entries).length, path: indexPath });
+      } catch (archiveError) {
+        const message = archiveError instanceof Error ? archiveError.message : String(archiveError);
+        log(`⚠️ Failed to update sparse index, pointers will not be resolvable`, { error: message });
+      }
+
+      // Phase 4: Build summary
+      const summary = buildHippocampusSummary(scored, allMessages, config, previousSummary, tokenizer, plan);
+      const summaryTokens = tokenizer.count(summary);
       const compressionRatio = (stats.totalTokens / Math.max(summaryTokens, 1)).toFixed(1);
 
       log(`📝 Summary built`, { summaryTokens, compressionRatio });
@@ -632,7 +5019,7 @@ export default function hippocampus(pi: ExtensionAPI): void {
 
       // Notify user
       ctx.ui.notify(
-        `🧠 hippocampus: ${stats.total} entries → ${stats.sparse} sparse + ${stats.compressed} compressed + ${stats.kept} kept (${compressionRatio}× compression)`,
+        `🧠 hippocampus: ${stats.total} entries → ${stats.sparse} sparse + ${stats.compressed} compressed + ${stats.kept} kept + ${stats.pinned} pinned + ${stats.failures} failures + ${stats.dropped} dropped (${compressionRatio}× compression)`,
         "info"
       );
 
@@ -654,11 +5041,28 @@ export default function hippocampus(pi: ExtensionAPI): void {
   });
 
   // ── Hook: turn_end ──
-  pi.on("turn_end", (_event: any, _ctx: ExtensionContext) => {
-    // Future: Track which entries the agent actually referenced
-    // and boost their importance scores for next compaction
-    log("📍 Turn ended — scoring update (future: track references)");
+  pi.on("turn_end", (event: TurnEndEvent, ctx: ExtensionContext) => {
+    bindContext(ctx);
+    if (!config.enabled) return;
+    // Record what the agent re-read, quoted or re-ran so matching entries stop decaying.
+    // Pi ends several turns per prompt (one per model response); count the prompt once,
+    // the way segmentTurns counts user turns. Without turnIndex every turn counts.
+    if (!event?.turnIndex) accessLog.turn++;
+    const cues = event?.message ? extractAccessCues(event.message as CompactionMessage) : [];
+    recordAccess(accessLog, { cues });
+
+    try {
+      saveAccessLog(accessPath, accessLog);
+    } catch (accessError) {
+      const message = accessError instanceof Error ? accessError.message : String(accessError);
+      log(`⚠️ Failed to save access log`, { error: message });
+    }
+    log("📍 Turn ended", { turn: accessLog.turn, cues: cues.length });
   });
+
+  // ── Hooks: session lifecycle ──
+  pi.on("session_start", (_event: unknown, ctx: ExtensionContext) => bindContext(ctx));
+  pi.on("session_shutdown", () => watcher?.close());
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -668,24 +5072,195 @@ export default function hippocampus(pi: ExtensionAPI): void {
 /** @internal */
 export {
   classifyMessage,
+  classifyEntry,
+  matchesClassifierRule,
+  matchesWildcard,
+  getToolProfile,
+  isToolResultMessage,
+  isErrorResult,
+  extractErrorLine,
+  extractKeyData,
+  formatKeyData,
+  detectContentKind,
+  splitSentences,
+  rankSentences,
+  summarizeExtractive,
+  extractIdentifiers,
+  buildReferenceIndex,
+  findReferences,
+  getReferenceBonus,
+  hashTextFeatures,
+  buildTextVectors,
+  cosineSimilarity,
+  buildAssociationGraph,
+  applyAssociations,
+  EXTRACTIVE_SUMMARIZER,
+  collectSummaryRequests,
+  applySummarizer,
+  formatSummarizerInput,
+  parseSummarizerOutput,
+  createModelSummarizer,
+  resolveSummarizer,
+  previewContent,
+  clipText,
+  extractToolCalls,
+  getToolResultIds,
+  summarizeToolArguments,
+  describeToolCall,
+  pairToolCalls,
+  getBaseType,
+  getTypeDecayRate,
+  getTypeFloor,
+  loadClassifierRules,
+  loadClassifierRulesFile,
   getBaseImportance,
   estimateTokens,
+  HEURISTIC_TOKENIZER,
+  createBpeTokenizer,
+  selectTokenizerName,
+  resolveTokenizer,
   extractPreview,
   extractToolName,
+  computeEntryId,
+  parseHippocampusTags,
+  assignPriority,
+  getSourceType,
+  matchesPolicy,
+  applyLifecyclePolicies,
+  getRetentionTier,
   calculateRetention,
+  calculateStrength,
+  isTurnStart,
+  segmentTurns,
+  getMessageTimestamp,
+  computeMessageAges,
+  extractToolCallArguments,
+  extractAccessCues,
+  createAccessLog,
+  loadAccessLog,
+  saveAccessLog,
+  scopeAccessLog,
+  recordAccess,
+  findLastAccess,
+  getAccessAge,
+  getDecayFunction,
+  DECAY_FUNCTIONS,
+  PRIORITY_DECAY_MODIFIERS,
+  ENCODING_DECAY_MODIFIERS,
   scoreMessages,
   buildSparseIndexLine,
+  formatSummaryEntry,
+  summaryEntryCost,
+  allocateSummaryBudget,
+  planSummary,
+  getPlannedTiers,
   buildHippocampusSummary,
+  computeCompactionStats,
+  simulateCompaction,
+  findGlobalConfigDir,
+  migrateConfig,
+  configEnvName,
+  readEnvConfig,
+  mergeConfig,
   loadConfig,
+  resolveConfig,
+  getConfigLayerFiles,
+  getConfigFiles,
+  diffConfig,
+  formatConfigChange,
+  reloadConfig,
+  watchConfigFiles,
+  loadPresetsFile,
+  getConfigPresets,
+  applyPreset,
+  CONFIG_PRESETS,
+  suggestKey,
+  checkConfigConstraints,
+  validateConfig,
+  validateConfigText,
+  formatConfigIssue,
+  CONFIG_FILE_NAME,
+  CONFIG_SCHEMA,
   extractContent,
+  toHippocampusEntryType,
+  createHippocampusEntry,
+  validateHippocampusEntry,
+  isHippocampusEntry,
+  resolveWorkspacePath,
+  loadSparseIndex,
+  saveSparseIndex,
+  pruneSparseIndex,
+  archiveEntries,
+  tokenizeCue,
+  recallEntries,
+  formatRecallResult,
+  RECALL_TOOL_NAME,
   DEFAULT_CONFIG
 }
 
 /** @internal */
 export type {
+  BuiltinEntryType,
   EntryType,
+  ClassifierRuleMatch,
+  ClassifierRule,
+  CustomEntryType,
+  ClassifierRulesFile,
+  Classification,
+  SummarizeMode,
+  ToolProfile,
+  ToolCallInfo,
+  ToolCallRef,
+  ToolPairing,
+  TestCounts,
+  KeyData,
+  ContentKind,
+  ReferenceIndex,
+  AssociationReason,
+  Association,
+  SummarizerName,
+  SummaryRequest,
+  Summarizer,
+  DecayFunctionName,
+  DecayFunction,
+  AgeMode,
+  AccessRecord,
+  AccessLog,
+  Tokenizer,
+  BpeRankFile,
+  CompressionMode,
+  LifecyclePolicyMatch,
+  LifecyclePolicyAction,
+  LifecyclePolicy,
+  PolicyOutcome,
+  RetentionModifiers,
+  RetentionTier,
+  SummaryTier,
+  PlannedTier,
+  SummaryPlan,
   HippocampusConfig,
+  ConfigLoadOptions,
+  ConfigLoadResult,
+  ConfigChange,
+  ConfigPreset,
+  ConfigReloadResult,
+  ConfigWatcher,
+  ConfigIssue,
+  ConfigValidationResult,
+  JsonSchema,
   ScoredEntry,
+  CompactionStats,
+  CompactionSimulation,
+  HippocampusEntryType,
+  Priority,
+  Encoding,
+  HippocampusEntry,
+  HippocampusEntryOptions,
+  EntryValidationResult,
+  SparseIndexRecord,
+  SparseIndex,
+  RecallQuery,
+  RecallMatch,
   CompactionMessage,
   ContentBlock
 }
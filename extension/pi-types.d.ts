@@ -4,6 +4,21 @@
 declare module "@mariozechner/pi-coding-agent" {
   export interface ExtensionAPI {
     on(event: string, handler: (event: any, ctx: any) => void | Promise<any>): void;
+    registerTool(tool: ToolDefinition): void;
+  }
+
+  export interface ToolResult {
+    content: Array<{ type: 'text'; text: string }>;
+    details?: unknown;
+    isError?: boolean;
+  }
+
+  export interface ToolDefinition {
+    name: string;
+    label?: string;
+    description: string;
+    parameters: Record<string, unknown>;
+    execute(toolCallId: string, params: Record<string, unknown>, signal?: AbortSignal, onUpdate?: unknown, ctx?: ExtensionContext): Promise<ToolResult>;
   }
 
   export interface CompactionEvent {
@@ -14,9 +29,23 @@ declare module "@mariozechner/pi-coding-agent" {
       firstKeptEntryId?: string;
       previousSummary?: string;
     };
+    signal?: AbortSignal;
+  }
+
+  export interface TurnEndEvent {
+    turnIndex?: number;
+    message?: unknown;
+    toolResults?: unknown[];
   }
 
   export interface ExtensionContext {
+    model?: { id: string; provider?: string };
+    sessionManager?: {
+      getSessionId(): string;
+    };
+    modelRegistry?: {
+      getApiKey(model: { id: string; provider?: string }): Promise<string | undefined>;
+    };
     ui: {
       notify(message: string, type?: 'info' | 'warning' | 'error'): void;
     };
@@ -29,4 +58,29 @@ declare module "@mariozechner/pi-coding-agent" {
       tokensBefore: number;
     };
   }
-}
\ No newline at end of file
+}
+
+declare module "@mariozechner/pi-ai" {
+  export interface Model {
+    id: string;
+    provider?: string;
+  }
+
+  export interface AssistantMessage {
+    content: Array<{ type: string; text?: string }>;
+    stopReason?: 'stop' | 'length' | 'toolUse' | 'error' | 'aborted';
+    errorMessage?: string;
+  }
+
+  export interface Context {
+    systemPrompt?: string;
+    messages: Array<{ role: 'user'; content: Array<{ type: 'text'; text: string }>; timestamp: number }>;
+  }
+
+  export function getModel(provider: string, modelId: string): Model | undefined;
+  export function complete(
+    model: Model,
+    context: Context,
+    options?: { apiKey?: string; maxTokens?: number; signal?: AbortSignal }
+  ): Promise<AssistantMessage>;
+}
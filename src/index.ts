@@ -8,6 +8,41 @@
  * @see https://github.com/starvex/hippocampus-md
  */
 
+import { DECAY_FUNCTIONS, type DecayFunctionName } from '../extension/hippocampus.js';
+
+// Normative entry schema (whitepaper §14.1), shared with the extension and CLI
+export type {
+  HippocampusEntry,
+  HippocampusEntryType,
+  HippocampusEntryOptions,
+  EntryValidationResult,
+  Priority,
+  Encoding,
+  CompactionMessage,
+  DecayFunctionName,
+  DecayFunction,
+  AgeMode,
+  Tokenizer,
+  HippocampusConfig as CanonicalConfig,
+  ConfigLoadOptions,
+  ConfigPreset,
+} from '../extension/hippocampus.js';
+export {
+  createHippocampusEntry,
+  validateHippocampusEntry,
+  isHippocampusEntry,
+  calculateStrength,
+  segmentTurns,
+  resolveTokenizer,
+  loadConfig,
+  migrateConfig,
+  DEFAULT_CONFIG,
+  CONFIG_PRESETS,
+  DECAY_FUNCTIONS,
+  PRIORITY_DECAY_MODIFIERS,
+  ENCODING_DECAY_MODIFIERS,
+} from '../extension/hippocampus.js';
+
 // Re-export types for programmatic use
 export interface DecayConfig {
   /** Decision messages - slowest decay (λ = 0.03) */
@@ -36,6 +71,12 @@ export interface SparseIndexConfig {
   path: string;
 }
 
+/**
+ * Legacy config file shape, written by earlier versions of `hippocampus-md init`.
+ * loadConfig still reads it through migrateConfig; new files use the
+ * extension's keys (decayRates, sparseThreshold, compressThreshold, logFile, indexFile).
+ * @deprecated Use CanonicalConfig
+ */
 export interface HippocampusConfig {
   /** Enable/disable the extension */
   enabled: boolean;
@@ -59,7 +100,7 @@ export type MessageType =
   | 'tool_result'
   | 'ephemeral';
 
-/** Default decay rates (λ values for exponential decay) */
+/** Default decay rates (λ values for exponential decay; a turn is one user exchange, see segmentTurns) */
 export const DEFAULT_DECAY: DecayConfig = {
   decision: 0.03,      // Half-life ≈ 23 turns
   user_intent: 0.05,   // Half-life ≈ 14 turns
@@ -75,19 +116,21 @@ export const DEFAULT_RETENTION: RetentionConfig = {
 };
 
 /**
- * Calculate retention score using exponential decay
+ * Calculate retention score using the selected decay curve (exponential by default)
  * 
  * @param age - Message age in turns
  * @param lambda - Decay rate (higher = faster decay)
  * @param baseImportance - Base importance score (0-1)
+ * @param decayFunction - Decay curve name
  * @returns Retention score (0-1)
  */
 export function calculateRetention(
   age: number,
   lambda: number,
-  baseImportance: number = 1.0
+  baseImportance: number = 1.0,
+  decayFunction: DecayFunctionName = 'exponential'
 ): number {
-  const decayFactor = Math.exp(-lambda * age);
+  const decayFactor = DECAY_FUNCTIONS[decayFunction](lambda, age);
   return baseImportance * decayFactor;
 }
 
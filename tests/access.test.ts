@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import hippocampus, {
+  extractToolCallArguments,
+  extractAccessCues,
+  createAccessLog,
+  loadAccessLog,
+  saveAccessLog,
+  recordAccess,
+  scopeAccessLog,
+  findLastAccess,
+  getAccessAge,
+  segmentTurns,
+  scoreMessages,
+  computeEntryId,
+  DEFAULT_CONFIG,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+const readCall = (path: string): CompactionMessage => ({
+  role: 'assistant',
+  content: [{ type: 'toolCall', name: 'read', arguments: { path } }]
+})
+
+// Twelve turns: the config file is read in the first, then unrelated work
+const session: CompactionMessage[] = [
+  { role: 'user', content: 'Explain the config loader' },
+  readCall('src/config.ts'),
+  { role: 'toolResult', toolName: 'read', content: 'export function loadConfig() { return defaults }' },
+  ...Array(10).fill(null).flatMap((_, i) => [
+    { role: 'user', content: `Unrelated question number ${i}` },
+    { role: 'assistant', content: `Unrelated answer number ${i}` }
+  ]),
+  { role: 'user', content: 'Thanks' }
+]
+
+describe('access cues', () => {
+  it('should read tool call arguments from every transcript format', () => {
+    expect(extractToolCallArguments(readCall('a.ts'))).toEqual([{ path: 'a.ts' }])
+    expect(extractToolCallArguments({
+      role: 'assistant',
+      content: [{ type: 'tool_use', name: 'bash', input: { command: 'npm test' } }]
+    })).toEqual([{ command: 'npm test' }])
+    expect(extractToolCallArguments({
+      role: 'assistant',
+      tool_calls: [{ function: { name: 'grep', arguments: '{"pattern":"loadConfig"}' } }]
+    })).toEqual([{ pattern: 'loadConfig' }])
+  })
+
+  it('should extract paths, commands, code spans and quotes', () => {
+    const cues = extractAccessCues({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'The bug is in `parseHeader` — the log says "connection reset by peer" twice.' },
+        { type: 'toolCall', name: 'bash', arguments: { command: 'npm test -- config\nsecond line', timeout: 60 } }
+      ]
+    })
+
+    expect(cues).toEqual(expect.arrayContaining(['npm test -- config', 'parseHeader', 'connection reset by peer']))
+    expect(cues).not.toContain('second line')
+  })
+
+  it('should ignore cues too short to match meaningfully', () => {
+    expect(extractAccessCues({ role: 'assistant', content: 'Set `x` to "on"' })).toEqual([])
+  })
+})
+
+describe('access log', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hippocampus-access-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should round-trip through disk and recover from corrupt files', () => {
+    const path = join(dir, '.pi', 'hippocampus-access.json')
+    expect(loadAccessLog(path)).toEqual(createAccessLog())
+
+    const accessLog = createAccessLog()
+    accessLog.turn = 7
+    recordAccess(accessLog, { cues: ['src/config.ts'], ids: ['ctx_aaaaaaaaaaaa'] }, 1000)
+    saveAccessLog(path, accessLog)
+
+    const reloaded = loadAccessLog(path)
+    expect(reloaded.turn).toBe(7)
+    expect(reloaded.cues['src/config.ts']).toEqual({ turn: 7, at: 1000, count: 1 })
+    expect(reloaded.ids.ctx_aaaaaaaaaaaa.turn).toBe(7)
+
+    writeFileSync(path, '{ not json')
+    expect(loadAccessLog(path)).toEqual(createAccessLog())
+  })
+
+  it('should count each turn once per cue', () => {
+    const accessLog = createAccessLog()
+    recordAccess(accessLog, { cues: ['npm test'] })
+    recordAccess(accessLog, { cues: ['npm test'] })
+    accessLog.turn++
+    recordAccess(accessLog, { cues: ['npm test'] })
+
+    expect(accessLog.cues['npm test']).toMatchObject({ turn: 1, count: 2 })
+  })
+
+  it('should start a fresh log in another session', () => {
+    const accessLog = createAccessLog()
+    expect(scopeAccessLog(accessLog, 'a')).toBe(false)
+    accessLog.turn = 3
+    recordAccess(accessLog, { cues: ['src/config.ts'] })
+
+    expect(scopeAccessLog(accessLog, 'a')).toBe(false)
+    expect(scopeAccessLog(accessLog, undefined)).toBe(false)
+    expect(accessLog.turn).toBe(3)
+    expect(scopeAccessLog(accessLog, 'b')).toBe(true)
+    expect(accessLog).toEqual({ ...createAccessLog(), session: 'b' })
+  })
+
+  it('should count one turn per prompt, not per model response', () => {
+    vi.spyOn(process, 'cwd').mockReturnValue(dir)
+    const handlers: Record<string, (event: unknown, ctx?: unknown) => unknown> = {}
+    hippocampus({
+      on: (name: string, handler: (event: unknown, ctx?: unknown) => unknown) => { handlers[name] = handler },
+      registerTool: () => {}
+    } as never)
+    const ctx = { ui: { notify: () => {} }, sessionManager: { getSessionId: () => 'session-1' } }
+
+    for (const turnIndex of [0, 1, 2, 0, 1]) {
+      handlers.turn_end({ turnIndex, message: readCall(`src/file${turnIndex}.ts`) }, ctx)
+    }
+    handlers.session_shutdown({})
+    vi.restoreAllMocks()
+
+    const saved = JSON.parse(readFileSync(join(dir, '.pi', 'hippocampus-access.json'), 'utf-8'))
+    expect(saved.turn).toBe(2)
+    expect(saved.session).toBe('session-1')
+    expect(saved.cues['src/file2.ts'].turn).toBe(1)
+  })
+})
+
+describe('access reinforcement', () => {
+  it('should match a tool result through the call that produced it', () => {
+    const accessLog = createAccessLog()
+    accessLog.turn = 20
+    recordAccess(accessLog, { cues: ['src/config.ts'] })
+
+    expect(findLastAccess(session, 2, computeEntryId(session[2]), accessLog)?.turn).toBe(20)
+    expect(findLastAccess(session, 4, computeEntryId(session[4]), accessLog)).toBeUndefined()
+  })
+
+  it('should match cues in content on whole words only', () => {
+    const accessLog = createAccessLog()
+    recordAccess(accessLog, { cues: ['loadConfig()'] })
+    const found = (content: string) => findLastAccess([{ role: 'assistant', content }], 0, 'ctx_a', accessLog)
+
+    expect(found('call loadConfig() first')).toBeDefined()
+    expect(found('see reloadConfig() instead')).toBeUndefined()
+  })
+
+  it('should reset decay for entries the agent re-read', () => {
+    const accessLog = createAccessLog()
+    accessLog.turn = 20
+    recordAccess(accessLog, { cues: ['src/config.ts'] })
+
+    const plain = scoreMessages(session, DEFAULT_CONFIG)
+    const reinforced = scoreMessages(session, DEFAULT_CONFIG, accessLog)
+
+    expect(reinforced[2].lastAccess).toBe(20)
+    expect(reinforced[2].retention).toBeGreaterThan(plain[2].retention)
+    expect(reinforced[4].retention).toBe(plain[4].retention)
+  })
+
+  it('should reset decay for recalled entry ids', () => {
+    const accessLog = createAccessLog()
+    accessLog.turn = 5
+    recordAccess(accessLog, { ids: [computeEntryId(session[0])] })
+    accessLog.turn = 6
+
+    const reinforced = scoreMessages(session, DEFAULT_CONFIG, accessLog)
+    expect(reinforced[0].lastAccess).toBe(5)
+    expect(reinforced[0].retention).toBeGreaterThan(scoreMessages(session, DEFAULT_CONFIG)[0].retention)
+  })
+
+  it('should measure access age in the units of the message ages', () => {
+    const accessLog = createAccessLog()
+    accessLog.turn = 20
+    const turns = segmentTurns(session)
+    const age = (turnsAgo: number, ageMode: 'turn' | 'message') =>
+      getAccessAge({ turn: 20 - turnsAgo, at: 0, count: 1 }, accessLog, { ...DEFAULT_CONFIG, ageMode }, turns)
+
+    expect(age(1, 'turn')).toBe(1)
+    // The turn before the last ends with the message right before 'Thanks'
+    expect(age(1, 'message')).toBe(1)
+    expect(age(2, 'message')).toBe(3)
+    expect(age(15, 'message')).toBe(Infinity)
+  })
+
+  it('should never make an entry older than it is', () => {
+    const accessLog = createAccessLog()
+    accessLog.turn = 500
+    recordAccess(accessLog, { cues: ['Thanks'] })
+    accessLog.turn = 1000
+
+    const scored = scoreMessages(session, DEFAULT_CONFIG, accessLog)
+    expect(scored[scored.length - 1].retention).toBe(scoreMessages(session, DEFAULT_CONFIG)[scored.length - 1].retention)
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import {
+  hashTextFeatures,
+  buildTextVectors,
+  cosineSimilarity,
+  buildAssociationGraph,
+  pairToolCalls,
+  scoreMessages,
+  getRetentionTier,
+  createHippocampusEntry,
+  DEFAULT_CONFIG,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+describe('local text vectors', () => {
+  it('should hash words and bigrams deterministically', () => {
+    expect(hashTextFeatures('sqlite adapter pool')).toEqual(hashTextFeatures('sqlite adapter pool'))
+    expect(hashTextFeatures('sqlite adapter pool').size).toBe(5)
+  })
+
+  it('should make related texts more similar than unrelated ones', () => {
+    const [a, b, c] = buildTextVectors([
+      'The connection pool exhausts its sqlite connections under load',
+      'Raise the sqlite connection pool size so it stops exhausting connections',
+      'Lunch was pizza and the weather was lovely today'
+    ])
+
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1)
+    expect(cosineSimilarity(a, b)).toBeGreaterThan(cosineSimilarity(a, c))
+  })
+
+  it('should leave texts too short to compare without a vector', () => {
+    expect(buildTextVectors(['ok', 'thanks a lot'])[0].size).toBe(0)
+  })
+})
+
+describe('buildAssociationGraph', () => {
+  const messages: CompactionMessage[] = [
+    { role: 'assistant', content: [{ type: 'toolCall', id: 'c1', name: 'read', arguments: { path: 'src/db.ts' } }] },
+    { role: 'toolResult', toolCallId: 'c1', toolName: 'read', content: 'export const pool = createPool({ max: 2 })' },
+    { role: 'assistant', content: 'Decision: raise the pool size in src/db.ts to 10.' },
+    { role: 'user', content: 'What about the weather tomorrow?' }
+  ]
+
+  it('should link calls to results and messages sharing a path', () => {
+    const graph = buildAssociationGraph(messages, pairToolCalls(messages), DEFAULT_CONFIG)
+
+    expect(graph[0]).toContainEqual({ index: 1, weight: 1, reason: 'tool_call' })
+    expect(graph[2]).toContainEqual({ index: 0, weight: 0.8, reason: 'path' })
+    // Results inherit the path of the call that produced them
+    expect(graph[1]).toContainEqual({ index: 2, weight: 0.8, reason: 'path' })
+    expect(graph[3]).toEqual([])
+  })
+
+  it('should link similar messages above the threshold', () => {
+    const similar: CompactionMessage[] = [
+      { role: 'user', content: 'The sqlite connection pool keeps running out of connections' },
+      { role: 'assistant', content: 'The sqlite connection pool runs out of connections because max is 2' }
+    ]
+    const graph = buildAssociationGraph(similar, pairToolCalls(similar), DEFAULT_CONFIG)
+
+    expect(graph[0][0]).toMatchObject({ index: 1, reason: 'similarity' })
+    expect(buildAssociationGraph(similar, pairToolCalls(similar), { ...DEFAULT_CONFIG, associationThreshold: 1.01 })[0]).toEqual([])
+  })
+
+  it('should still find similar messages late in a long session', () => {
+    const long: CompactionMessage[] = [
+      ...Array(300).fill(null).map((_, i) => ({ role: 'assistant', content: `Ran the usual build and test steps again, run ${i}` })),
+      { role: 'user', content: 'The sqlite connection pool keeps running out of connections' },
+      { role: 'assistant', content: 'The sqlite connection pool runs out of connections because max is 2' }
+    ]
+    const graph = buildAssociationGraph(long, pairToolCalls(long), DEFAULT_CONFIG)
+
+    expect(graph[300][0]).toMatchObject({ index: 301, reason: 'similarity' })
+  })
+})
+
+describe('association bonus', () => {
+  const session: CompactionMessage[] = [
+    { role: 'user', content: 'The app times out under load' },
+    { role: 'assistant', content: [{ type: 'toolCall', id: 'c1', name: 'read', arguments: { path: 'src/db.ts' } }] },
+    { role: 'toolResult', toolCallId: 'c1', toolName: 'read', content: 'export const pool = createPool({ max: 2 })' },
+    { role: 'assistant', content: 'Decision: we raise the pool size in src/db.ts to 10 and keep sqlite.' },
+    ...Array(10).fill(null).flatMap((_, i) => [
+      { role: 'user', content: `Unrelated question ${i}` },
+      { role: 'assistant', content: `Unrelated answer ${i}` }
+    ])
+  ]
+
+  it('should let a strong decision keep its tool result alive', () => {
+    const plain = scoreMessages(session, { ...DEFAULT_CONFIG, associationStrength: 0 })
+    const associated = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(getRetentionTier(plain[2], DEFAULT_CONFIG)).toBe('sparse')
+    expect(associated[2].retention).toBeGreaterThan(plain[2].retention)
+    expect(getRetentionTier(associated[2], DEFAULT_CONFIG)).toBe('compressed')
+    expect(associated[3].retention).toBe(plain[3].retention)
+  })
+
+  it('should lift a call and its result together', () => {
+    const paired: CompactionMessage[] = [
+      { role: 'user', content: 'The app times out under load' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me run the load test.' },
+          { type: 'toolCall', id: 'c1', name: 'bash', arguments: { command: 'npm run load-test' } }
+        ]
+      },
+      { role: 'toolResult', toolCallId: 'c1', toolName: 'bash', content: 'Timeout: pool exhausted in src/db.ts after 2 connections' },
+      { role: 'assistant', content: 'Decision: we raise the pool size in src/db.ts to 10 and keep sqlite.' },
+      ...session.slice(4)
+    ]
+    const plain = scoreMessages(paired, { ...DEFAULT_CONFIG, associationStrength: 0 })
+    const scored = scoreMessages(paired, DEFAULT_CONFIG)
+
+    expect(scored[1].merged).toBeUndefined()
+    expect(scored[2].retention).toBeGreaterThan(plain[2].retention)
+    expect(scored[1].retention).toBe(scored[2].retention)
+  })
+
+  it('should record associations on normative entries', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    const entry = createHippocampusEntry(session[3], { scored: scored[3] })
+
+    expect(entry.modifiers.associations).toContain(scored[1].id)
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  classifyEntry,
+  matchesClassifierRule,
+  getBaseImportance,
+  getTypeDecayRate,
+  getTypeFloor,
+  scoreMessages,
+  matchesPolicy,
+  buildSparseIndexLine,
+  createHippocampusEntry,
+  loadConfig,
+  loadClassifierRulesFile,
+  resolveConfig,
+  formatConfigIssue,
+  DEFAULT_CONFIG,
+  type HippocampusConfig,
+  type CompactionMessage,
+  type ClassifierRule
+} from '../extension/hippocampus'
+
+const withRules = (
+  classifierRules: ClassifierRule[],
+  customTypes: HippocampusConfig['customTypes'] = {}
+): HippocampusConfig => ({
+  ...DEFAULT_CONFIG,
+  classifierRules,
+  customTypes
+})
+
+const errorResult: CompactionMessage = { role: 'toolResult', toolName: 'bash', content: 'Error: ENOENT: no such file' }
+const readResult: CompactionMessage = { role: 'toolResult', toolName: 'read', content: 'export const x = 1' }
+const planStep: CompactionMessage = { role: 'assistant', content: 'Step 2: migrate the schema' }
+
+describe('matchesClassifierRule', () => {
+  it('should match role, tool name and block type case-insensitively', () => {
+    expect(matchesClassifierRule({ role: 'toolResult', toolName: 'READ' }, readResult)).toBe(true)
+    expect(matchesClassifierRule({ toolName: ['write', 'edit'] }, readResult)).toBe(false)
+    expect(matchesClassifierRule(
+      { blockType: 'toolCall' },
+      { role: 'assistant', content: [{ type: 'toolCall', name: 'read', arguments: {} }] }
+    )).toBe(true)
+    expect(matchesClassifierRule({ blockType: 'image' }, planStep)).toBe(false)
+  })
+
+  it('should match patterns and length bounds against the message text', () => {
+    expect(matchesClassifierRule({ pattern: '^error:' }, errorResult)).toBe(true)
+    expect(matchesClassifierRule({ pattern: '^error:', flags: '' }, errorResult)).toBe(false)
+    expect(matchesClassifierRule({ minLength: 100 }, errorResult)).toBe(false)
+    expect(matchesClassifierRule({ maxLength: 100 }, errorResult)).toBe(true)
+  })
+
+  it('should never match an invalid pattern', () => {
+    expect(matchesClassifierRule({ pattern: '(' }, errorResult)).toBe(false)
+  })
+})
+
+describe('classifyEntry', () => {
+  const config = withRules([
+    { name: 'errors', match: { role: 'toolResult', pattern: '^error' }, type: 'failure' },
+    { name: 'reads', match: { toolName: 'read' }, type: 'file_read' },
+    { match: { role: 'assistant', pattern: '^step \\d+:' }, type: 'plan_step' }
+  ], {
+    failure: { extends: 'tool_result', importance: 0.7, decayRate: 0.08, floor: 0.2 },
+    file_read: { extends: 'tool_result' },
+    plan_step: { extends: 'decision', priority: 'high' }
+  })
+
+  it('should let the first matching rule win', () => {
+    expect(classifyEntry(errorResult, config)).toEqual({ type: 'failure', baseType: 'tool_result', rule: 'errors' })
+    expect(classifyEntry(readResult, config)).toEqual({ type: 'file_read', baseType: 'tool_result', rule: 'reads' })
+    expect(classifyEntry(planStep, config).rule).toBe('rule[2]')
+  })
+
+  it('should fall back to the built-in heuristics', () => {
+    expect(classifyEntry({ role: 'user', content: 'Deploy it' }, config)).toEqual({ type: 'user_intent', baseType: 'user_intent' })
+    expect(classifyEntry(readResult)).toEqual({ type: 'tool_result', baseType: 'tool_result' })
+  })
+
+  it('should resolve custom type profiles with inheritance from the base type', () => {
+    expect(getBaseImportance('failure', config)).toBe(0.7)
+    expect(getTypeDecayRate('failure', config)).toBe(0.08)
+    expect(getTypeFloor('failure', config)).toBe(0.2)
+
+    expect(getBaseImportance('file_read', config)).toBe(getBaseImportance('tool_result'))
+    expect(getTypeDecayRate('file_read', config)).toBe(DEFAULT_CONFIG.decayRates.tool_result)
+    expect(getTypeFloor('plan_step', config)).toBe(DEFAULT_CONFIG.retentionFloor.decision)
+
+    expect(getBaseImportance('undeclared', config)).toBe(getBaseImportance('unknown'))
+    expect(getTypeDecayRate('undeclared', config)).toBe(DEFAULT_CONFIG.decayRates.unknown)
+  })
+
+  it('should score, prioritize and render custom types', () => {
+    const messages = [errorResult, readResult, planStep, { role: 'user', content: 'Thanks' }]
+    const scored = scoreMessages(messages, config)
+
+    expect(scored[0]).toMatchObject({ type: 'failure', baseType: 'tool_result', rule: 'errors' })
+    expect(scored[0].importance).toBeCloseTo(0.85)
+    expect(scored[2].priority).toBe('high')
+    expect(scored[3].baseType).toBeUndefined()
+    expect(buildSparseIndexLine(scored[1], readResult)).toContain('[TOOL:read]')
+    expect(buildSparseIndexLine(scored[2], planStep)).toContain('[PLAN_STEP]')
+  })
+
+  it('should let policies and normative entries see both the custom and the base type', () => {
+    expect(matchesPolicy({ type: 'failure' }, errorResult, 'failure', 'normal', config)).toBe(true)
+    expect(matchesPolicy({ type: 'tool_result' }, errorResult, 'failure', 'normal', config)).toBe(true)
+    expect(matchesPolicy({ 'source.type': 'bash' }, errorResult, 'failure', 'normal', config)).toBe(true)
+
+    const scored = scoreMessages([errorResult], config)
+    const entry = createHippocampusEntry(errorResult, { scored: scored[0], config })
+    expect(entry.type).toBe('tool_result')
+    expect(entry.decay).toMatchObject({ rate: 0.08, floor: 0.2 })
+  })
+})
+
+describe('classifier rules file', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hippocampus-rules-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should append file rules after config rules and merge types', () => {
+    writeFileSync(join(dir, 'hippocampus.config.json'), JSON.stringify({
+      classifierRules: [{ name: 'config-rule', match: { toolName: 'read' }, type: 'file_read' }],
+      customTypes: { file_read: { extends: 'tool_result', decayRate: 0.5 } }
+    }))
+    writeFileSync(join(dir, 'hippocampus.rules.json'), JSON.stringify({
+      rules: [{ name: 'file-rule', match: { pattern: 'error' }, type: 'failure' }],
+      types: { failure: { importance: 0.9 }, file_read: { decayRate: 0.01 } }
+    }))
+
+    const config = loadConfig(dir)
+    expect(config.classifierRules.map(r => r.name)).toEqual(['config-rule', 'file-rule'])
+    expect(config.customTypes.failure.importance).toBe(0.9)
+    expect(config.customTypes.file_read.decayRate).toBe(0.5)
+  })
+
+  it('should accept a bare rule array and ignore unreadable files', () => {
+    writeFileSync(join(dir, 'rules.json'), JSON.stringify([{ match: { role: 'user' }, type: 'request' }]))
+    writeFileSync(join(dir, 'hippocampus.config.json'), JSON.stringify({ classifierRulesFile: 'rules.json' }))
+    expect(loadConfig(dir).classifierRules).toHaveLength(1)
+
+    writeFileSync(join(dir, 'rules.json'), '{ broken')
+    expect(loadConfig(dir).classifierRules).toEqual([])
+  })
+
+  it('should report invalid rules and types under the rules file', () => {
+    const path = join(dir, 'hippocampus.rules.json')
+    writeFileSync(path, JSON.stringify({
+      rules: [{ name: 'ok', match: { role: 'user' }, type: 'request' }, { name: 'no-type', match: { role: 'user' } }],
+      types: { request: { importance: 2 } },
+      rule: []
+    }))
+    const { file, issues } = loadClassifierRulesFile(path)
+
+    expect(file.rules!.map(r => r.name)).toEqual(['ok'])
+    expect(file.types).toEqual({ request: {} })
+    expect(issues.map(formatConfigIssue)).toEqual([
+      'rules[1]: missing required "type"',
+      'types.request.importance: must be at most 1, got 2',
+      'rule: unknown key (did you mean "rules"?)'
+    ])
+    expect(resolveConfig(dir, { globalDir: join(dir, '.pi'), env: {} }).issues.map(({ source }) => source)).toEqual([path, path, path])
+  })
+})
@@ -3,6 +3,7 @@ import { readFileSync, existsSync } from 'node:fs'
 import {
   loadConfig,
   buildHippocampusSummary,
+  allocateSummaryBudget,
   DEFAULT_CONFIG,
   type HippocampusConfig,
   type CompactionMessage,
@@ -111,10 +112,14 @@ describe('buildHippocampusSummary', () => {
     content: string,
     tokenEstimate = 50
   ): ScoredEntry => ({
+    id: `ctx_${String(index).padStart(12, '0')}`,
     index,
+    turn: index,
     type,
     importance: 0.5,
     retention,
+    priority: 'normal',
+    encoding: 'auto',
     tokenEstimate,
     summary: '',
     role: type === 'user_intent' ? 'user' : 'assistant',
@@ -260,6 +265,25 @@ describe('buildHippocampusSummary', () => {
     expect(summary).toContain('× compression)')
   })
 
+  it('should pin critical entries regardless of retention', () => {
+    const scored: ScoredEntry[] = [
+      { ...createScoredEntry(0, 'user_intent', 0.1, 'Never deploy on Fridays'), priority: 'critical' },
+      { ...createScoredEntry(1, 'context', 0.4, 'Some background'), priority: 'high' }
+    ]
+    const messages: CompactionMessage[] = [
+      createMessage('user', 'Never deploy on Fridays'),
+      createMessage('assistant', 'Some background')
+    ]
+
+    const summary = buildHippocampusSummary(scored, messages, config)
+
+    expect(summary).toContain('## Pinned (critical — never decays)')
+    expect(summary).toContain('### [user_intent] !critical\nNever deploy on Fridays')
+    expect(summary).toContain('pinned: 1')
+    expect(summary).toContain('[ASSISTANT] Some background !high [ref:')
+    expect(summary).not.toContain('## Sparse Index')
+  })
+
   it('should handle empty input gracefully', () => {
     const summary = buildHippocampusSummary([], [], config)
 
@@ -291,4 +315,89 @@ describe('buildHippocampusSummary', () => {
     expect(summary).toContain('[DECISION] "I will read the file now"')
     expect(summary).toContain('[EPHEMERAL] HEARTBEAT_OK')
   })
-})
\ No newline at end of file
+})
+
+describe('summary token budget', () => {
+  const createSession = (count: number) => {
+    const messages: CompactionMessage[] = []
+    const scored: ScoredEntry[] = []
+    for (let i = 0; i < count; i++) {
+      const content = `Entry ${i}: ${'details '.repeat(200)}`
+      messages.push({ role: 'assistant', content })
+      scored.push({
+        id: `ctx_${String(i).padStart(12, '0')}`,
+        index: i,
+        turn: i,
+        type: 'context',
+        importance: 0.5,
+        retention: (i + 1) / count,
+        priority: 'normal',
+        encoding: 'auto',
+        tokenEstimate: Math.ceil(content.length / 4),
+        summary: '',
+        role: 'assistant',
+        contentPreview: content
+      })
+    }
+    return { messages, scored }
+  }
+
+  const budgeted: HippocampusConfig = { ...DEFAULT_CONFIG, targetSummaryTokens: 3000 }
+
+  it('should keep the summary near the target regardless of session length', () => {
+    for (const count of [20, 200, 1000]) {
+      const { messages, scored } = createSession(count)
+      const summary = buildHippocampusSummary(scored, messages, budgeted)
+      expect(Math.ceil(summary.length / 4)).toBeLessThanOrEqual(3000 + 200)
+      expect(summary).toContain('target_tokens=3000')
+    }
+  })
+
+  it('should leave threshold bucketing untouched when no target is set', () => {
+    const { messages, scored } = createSession(200)
+    const summary = buildHippocampusSummary(scored, messages, DEFAULT_CONFIG)
+    expect(summary).not.toContain('target_tokens=')
+    expect(summary).toContain('kept: 71')
+  })
+
+  it('should give the budget to the highest retention entries first', () => {
+    const { messages, scored } = createSession(50)
+    const tiers = allocateSummaryBudget(scored, messages, budgeted, 3000)
+
+    expect(tiers[49]).toBe('kept')
+    expect(tiers[0]).not.toBe('kept')
+    // Anything left out has lower retention than anything kept in full
+    const lastDropped = tiers.lastIndexOf('dropped')
+    expect(lastDropped).toBeLessThan(tiers.indexOf('kept'))
+  })
+
+  it('should promote mid-retention entries into Active Context when the budget allows', () => {
+    const { messages, scored } = createSession(1)
+    scored[0] = { ...scored[0], retention: 0.4 }
+
+    const summary = buildHippocampusSummary(scored, messages, budgeted)
+    expect(summary).toContain('## Active Context (high retention)')
+    expect(summary).toContain('kept: 1')
+  })
+
+  it('should keep pinned entries and respect compression overrides', () => {
+    const { messages, scored } = createSession(30)
+    scored[0] = { ...scored[0], priority: 'critical' }
+    scored[29] = { ...scored[29], compression: 'aggressive' }
+    scored[1] = { ...scored[1], compression: 'none' }
+
+    const tiers = allocateSummaryBudget(scored, messages, budgeted, 100000)
+    expect(tiers[0]).toBe('pinned')
+    expect(tiers[29]).toBe('sparse')
+    expect(tiers[1]).toBe('kept')
+    expect(tiers.slice(2, 29).every(t => t === 'kept')).toBe(true)
+  })
+
+  it('should count kept entries by what is emitted, not by their original size', () => {
+    const { messages, scored } = createSession(1)
+    const summary = buildHippocampusSummary(scored, messages, { ...DEFAULT_CONFIG, compressThreshold: 0 })
+    const emitted = Number(summary.match(/→ (\d+)tok/)?.[1])
+    expect(emitted).toBeLessThan(scored[0].tokenEstimate)
+  })
+})
+
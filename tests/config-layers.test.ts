@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  loadConfig,
+  migrateConfig,
+  readEnvConfig,
+  configEnvName,
+  findGlobalConfigDir,
+  DEFAULT_CONFIG
+} from '../extension/hippocampus'
+
+const legacy = {
+  enabled: false,
+  debug: true,
+  logPath: '/tmp/hippocampus-debug.log',
+  decay: { decision: 0.02, tool_result: 0.3 },
+  retention: { sparse: 0.2, compress: 0.7 },
+  sparseIndex: { enabled: true, path: '/home/me/.pi/hippocampus-index.json' }
+}
+
+describe('migrateConfig', () => {
+  it('should map the legacy init shape onto canonical keys', () => {
+    expect(migrateConfig(legacy)).toEqual({
+      enabled: false,
+      debug: true,
+      logFile: '/tmp/hippocampus-debug.log',
+      decayRates: { decision: 0.02, tool_result: 0.3 },
+      sparseThreshold: 0.2,
+      compressThreshold: 0.7,
+      indexFile: '/home/me/.pi/hippocampus-index.json'
+    })
+  })
+
+  it('should let canonical keys win over legacy ones', () => {
+    expect(migrateConfig({ retention: { sparse: 0.2 }, sparseThreshold: 0.3, decay: { decision: 0.02 }, decayRates: { decision: 0.01 } }))
+      .toEqual({ sparseThreshold: 0.3, decayRates: { decision: 0.01 } })
+  })
+
+  it('should leave canonical configs untouched', () => {
+    expect(migrateConfig({ sparseThreshold: 0.3, logFile: 'x.log' })).toEqual({ sparseThreshold: 0.3, logFile: 'x.log' })
+  })
+})
+
+describe('readEnvConfig', () => {
+  it('should name variables after the config keys', () => {
+    expect(configEnvName('sparseThreshold')).toBe('HIPPOCAMPUS_SPARSE_THRESHOLD')
+    expect(configEnvName('enabled')).toBe('HIPPOCAMPUS_ENABLED')
+  })
+
+  it('should parse values by the type of the default', () => {
+    expect(readEnvConfig({
+      HIPPOCAMPUS_ENABLED: 'off',
+      HIPPOCAMPUS_DEBUG: '1',
+      HIPPOCAMPUS_SPARSE_THRESHOLD: '0.3',
+      HIPPOCAMPUS_LOG_FILE: '/var/log/hippocampus.log',
+      HIPPOCAMPUS_DECAY_RATES: '{"decision":0.01}',
+      OTHER: 'x'
+    })).toEqual({ enabled: false, debug: true, sparseThreshold: 0.3, logFile: '/var/log/hippocampus.log' })
+  })
+
+  it('should skip values that do not parse', () => {
+    expect(readEnvConfig({ HIPPOCAMPUS_DEBUG: 'maybe', HIPPOCAMPUS_SPARSE_THRESHOLD: 'low' })).toEqual({})
+  })
+})
+
+describe('loadConfig layers', () => {
+  let root: string
+  let globalDir: string
+  let workspace: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'hippocampus-config-'))
+    globalDir = join(root, '.pi')
+    workspace = join(root, 'project')
+    mkdirSync(globalDir)
+    mkdirSync(workspace)
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  const write = (dir: string, config: object) =>
+    writeFileSync(join(dir, 'hippocampus.config.json'), JSON.stringify(config))
+
+  it('should return defaults when nothing is configured', () => {
+    expect(loadConfig(workspace, { globalDir, env: {} })).toEqual(DEFAULT_CONFIG)
+  })
+
+  it('should read the config written by init in the global dir', () => {
+    write(globalDir, legacy)
+    const config = loadConfig(workspace, { globalDir, env: {} })
+
+    expect(config.enabled).toBe(false)
+    expect(config.sparseThreshold).toBe(0.2)
+    expect(config.decayRates.decision).toBe(0.02)
+    expect(config.decayRates.context).toBe(DEFAULT_CONFIG.decayRates.context)
+    expect(config.indexFile).toBe('/home/me/.pi/hippocampus-index.json')
+  })
+
+  it('should apply defaults, then global, then workspace, then env', () => {
+    write(globalDir, { sparseThreshold: 0.2, compressThreshold: 0.7, debug: true, decayRates: { decision: 0.02 } })
+    write(workspace, { sparseThreshold: 0.3, decayRates: { context: 0.1 } })
+    const config = loadConfig(workspace, { globalDir, env: { HIPPOCAMPUS_DEBUG: 'false' } })
+
+    expect(config.sparseThreshold).toBe(0.3)
+    expect(config.compressThreshold).toBe(0.7)
+    expect(config.debug).toBe(false)
+    expect(config.decayRates).toMatchObject({ decision: 0.02, context: 0.1, tool_result: DEFAULT_CONFIG.decayRates.tool_result })
+  })
+
+  it('should merge every map setting per key across layers', () => {
+    write(globalDir, {
+      customTypes: { plan_step: { extends: 'decision' } },
+      priorityByType: { error: 'critical' },
+      priorityMarkers: { critical: ['PIN:'] },
+      tokenizerByModel: { 'gpt-*': 'o200k_base' }
+    })
+    write(workspace, {
+      customTypes: { file_read: { extends: 'tool_result' } },
+      priorityByType: { context: 'low' },
+      priorityMarkers: { low: ['FYI:'] },
+      tokenizerByModel: { 'claude-*': 'heuristic' }
+    })
+    const config = loadConfig(workspace, { globalDir, env: {} })
+
+    expect(Object.keys(config.customTypes)).toEqual(['plan_step', 'file_read'])
+    expect(config.priorityByType).toEqual({ ...DEFAULT_CONFIG.priorityByType, error: 'critical', context: 'low' })
+    expect(config.priorityMarkers).toEqual({ ...DEFAULT_CONFIG.priorityMarkers, critical: ['PIN:'], low: ['FYI:'] })
+    expect(config.tokenizerByModel).toEqual({ 'gpt-*': 'o200k_base', 'claude-*': 'heuristic' })
+  })
+
+  it('should skip an unreadable layer and keep the others', () => {
+    writeFileSync(join(globalDir, 'hippocampus.config.json'), '{ not json')
+    write(workspace, { sparseThreshold: 0.3 })
+
+    expect(loadConfig(workspace, { globalDir, env: {} }).sparseThreshold).toBe(0.3)
+  })
+})
+
+describe('findGlobalConfigDir', () => {
+  let home: string
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), 'hippocampus-home-'))
+  })
+
+  afterEach(() => {
+    rmSync(home, { recursive: true, force: true })
+  })
+
+  it('should prefer the most specific installed platform and fall back to ~/.pi', () => {
+    expect(findGlobalConfigDir(home)).toBe(join(home, '.pi'))
+
+    mkdirSync(join(home, '.openclaw'))
+    expect(findGlobalConfigDir(home)).toBe(join(home, '.openclaw'))
+  })
+})
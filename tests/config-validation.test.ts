@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  validateConfig,
+  validateConfigText,
+  suggestKey,
+  formatConfigIssue,
+  loadConfig,
+  CONFIG_SCHEMA,
+  DEFAULT_CONFIG
+} from '../extension/hippocampus'
+
+const messages = (value: unknown) => validateConfig(value).issues.map(formatConfigIssue)
+
+describe('CONFIG_SCHEMA', () => {
+  it('should match the shipped schema file', () => {
+    const shipped = JSON.parse(readFileSync(join(__dirname, '../extension/hippocampus.config.schema.json'), 'utf-8'))
+    expect(shipped).toEqual(JSON.parse(JSON.stringify(CONFIG_SCHEMA)))
+  })
+
+  it('should accept the defaults and the example config', () => {
+    const example = JSON.parse(readFileSync(join(__dirname, '../extension/hippocampus.config.example.json'), 'utf-8'))
+    expect(validateConfig(DEFAULT_CONFIG).issues).toEqual([])
+    expect(validateConfig(example).issues).toEqual([])
+  })
+})
+
+describe('validateConfig', () => {
+  it('should report unknown keys with a suggestion', () => {
+    const result = validateConfig({ sparseTreshold: 0.3, frobnicate: true })
+
+    expect(result.valid).toBe(true)
+    expect(result.issues).toEqual([
+      { severity: 'warning', path: 'sparseTreshold', message: 'unknown key (did you mean "sparseThreshold"?)', suggestion: 'sparseThreshold' },
+      { severity: 'warning', path: 'frobnicate', message: 'unknown key' }
+    ])
+    expect(result.config).toEqual({})
+  })
+
+  it('should range-check rates, thresholds and floors', () => {
+    expect(messages({
+      decayRates: { decision: -0.1, context: 'fast' },
+      compressThreshold: 1.5,
+      retentionFloor: { decision: 2 }
+    })).toEqual([
+      'decayRates.decision: must be at least 0, got -0.1',
+      'decayRates.context: must be a number, got "fast"',
+      'compressThreshold: must be at most 1, got 1.5',
+      'retentionFloor.decision: must be at most 1, got 2'
+    ])
+  })
+
+  it('should require sparseThreshold below compressThreshold', () => {
+    const result = validateConfig({ sparseThreshold: 0.7, compressThreshold: 0.6, debug: true })
+
+    expect(result.valid).toBe(false)
+    expect(result.issues.map(formatConfigIssue)).toEqual(['sparseThreshold: must be below compressThreshold (0.7 ≥ 0.6)'])
+    expect(result.config).toEqual({ debug: true })
+  })
+
+  it('should keep valid values and drop only the invalid ones', () => {
+    const result = validateConfig({
+      debug: true,
+      decayRates: { decision: 0.02, context: -1 },
+      lifecyclePolicies: [
+        { match: { type: 'tool_result' }, action: { compression: 'aggressive' } },
+        { match: { type: 'error' } }
+      ]
+    })
+
+    expect(result.config).toEqual({
+      debug: true,
+      decayRates: { decision: 0.02 },
+      lifecyclePolicies: [{ match: { type: 'tool_result' }, action: { compression: 'aggressive' } }]
+    })
+    expect(result.issues.map(formatConfigIssue)).toContain('lifecyclePolicies[1]: missing required "action"')
+  })
+
+  it('should check nested policy, rule and profile fields', () => {
+    expect(messages({
+      lifecyclePolicies: [{ match: { 'source.type': 1, priority: ['urgent'] }, action: { compression: 'agressive' } }],
+      toolProfiles: { bash: { summarize: 'middle' } },
+      summarizer: 'modle'
+    })).toEqual([
+      'lifecyclePolicies[0].match["source.type"]: must be a string or an array, got 1',
+      'lifecyclePolicies[0].match.priority: must be one of "critical", "high", "normal", "low", or an array',
+      'lifecyclePolicies[0].action.compression: must be one of "none", "normal", "aggressive" (did you mean "aggressive"?)',
+      'toolProfiles.bash.summarize: must be one of "head", "tail", "head_tail", "pointer"',
+      'summarizer: must be one of "extractive", "model", "none" (did you mean "model"?)'
+    ])
+  })
+
+  it('should require summarizerModel as provider/id', () => {
+    expect(messages({ summarizerModel: 'anthropic/claude-haiku-4-5' })).toEqual([])
+    expect(messages({ summarizerModel: '' })).toEqual([])
+    expect(messages({ summarizerModel: 'claude-haiku-4-5' })).toEqual([
+      'summarizerModel: must match ^(?:[^/\\s]+\\/\\S+)?$, got "claude-haiku-4-5"'
+    ])
+  })
+
+  it('should accept legacy keys but flag them', () => {
+    const result = validateConfig({ decay: { decision: 0.02 }, retention: { sparse: 0.2, compress: 0.6 } })
+
+    expect(result.valid).toBe(true)
+    expect(result.config).toEqual({ decayRates: { decision: 0.02 }, sparseThreshold: 0.2, compressThreshold: 0.6 })
+    expect(result.issues.map((i) => i.path)).toEqual(['decay', 'retention'])
+  })
+
+  it('should turn syntax errors and non-objects into issues', () => {
+    expect(validateConfigText('{ "debug": true, }').issues[0].message).toMatch(/^invalid JSON/)
+    expect(validateConfigText('[1, 2]').issues[0].message).toBe('config must be a JSON object')
+  })
+})
+
+describe('suggestKey', () => {
+  it('should only suggest close matches', () => {
+    expect(suggestKey('decayrates', ['decayRates', 'debug'])).toBe('decayRates')
+    expect(suggestKey('tokeniser', ['tokenizer', 'tokenizerDir'])).toBe('tokenizer')
+    expect(suggestKey('colors', ['tokenizer', 'debug'])).toBeUndefined()
+  })
+})
+
+describe('validation on load', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'hippocampus-validate-'))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should warn and fall back to lower layers for invalid values', () => {
+    const globalDir = join(root, '.pi')
+    const workspace = join(root, 'project')
+    mkdirSync(globalDir)
+    mkdirSync(workspace)
+    writeFileSync(join(globalDir, 'hippocampus.config.json'), JSON.stringify({ sparseThreshold: 0.2 }))
+    writeFileSync(join(workspace, 'hippocampus.config.json'), JSON.stringify({ sparseThreshold: 'low', sparseTreshold: 0.3 }))
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const config = loadConfig(workspace, { globalDir, env: {} })
+
+    expect(config.sparseThreshold).toBe(0.2)
+    expect(warn.mock.calls.map(([line]) => line)).toEqual([
+      `[hippocampus] ${join(workspace, 'hippocampus.config.json')}: sparseThreshold: must be a number, got "low" (ignored)`,
+      `[hippocampus] ${join(workspace, 'hippocampus.config.json')}: sparseTreshold: unknown key (did you mean "sparseThreshold"?)`
+    ])
+    warn.mockRestore()
+  })
+
+  it('should reset thresholds that conflict only once layers are merged', () => {
+    writeFileSync(join(root, 'hippocampus.config.json'), JSON.stringify({ sparseThreshold: 0.7 }))
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const config = loadConfig(root, { globalDir: join(root, 'none'), env: {} })
+
+    expect(config.sparseThreshold).toBe(DEFAULT_CONFIG.sparseThreshold)
+    expect(config.compressThreshold).toBe(DEFAULT_CONFIG.compressThreshold)
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('merged config: sparseThreshold: must be below compressThreshold'))
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isErrorResult,
+  extractErrorLine,
+  classifyMessage,
+  scoreMessages,
+  getRetentionTier,
+  buildSparseIndexLine,
+  buildHippocampusSummary,
+  archiveEntries,
+  recallEntries,
+  DEFAULT_CONFIG,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+const bash = (id: string, command: string): CompactionMessage => ({
+  role: 'assistant',
+  content: [{ type: 'toolCall', id, name: 'bash', arguments: { command } }]
+})
+const result = (id: string, content: string, isError = false): CompactionMessage => ({
+  role: 'toolResult', toolCallId: id, toolName: 'bash', content, isError
+})
+
+const pythonTrace = [
+  'Traceback (most recent call last):',
+  '  File "migrate.py", line 12, in <module>',
+  '    run()',
+  'KeyError: \'DATABASE_URL\''
+].join('\n')
+
+describe('isErrorResult', () => {
+  it('should honor failure flags from every transcript format', () => {
+    expect(isErrorResult({ role: 'toolResult', content: 'denied', isError: true })).toBe(true)
+    expect(isErrorResult({ role: 'tool', content: 'denied', is_error: true })).toBe(true)
+    expect(isErrorResult({ role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', is_error: true, text: 'x' }] })).toBe(true)
+  })
+
+  it('should detect exit codes, stack traces and error prefixes', () => {
+    expect(isErrorResult({ role: 'toolResult', content: 'npm test\n\nCommand exited with code 1' })).toBe(true)
+    expect(isErrorResult({ role: 'toolResult', content: 'TypeError: x is undefined\n    at load (src/config.ts:12:5)' })).toBe(true)
+    expect(isErrorResult({ role: 'toolResult', content: pythonTrace })).toBe(true)
+    expect(isErrorResult({ role: 'toolResult', content: "src/a.ts(3,7): error TS2322: Type 'string' is not assignable" })).toBe(true)
+    expect(isErrorResult({ role: 'toolResult', content: 'npm ERR! missing script: build' })).toBe(true)
+    expect(isErrorResult({ role: 'toolResult', content: 'bash: pnpm: command not found' })).toBe(true)
+  })
+
+  it('should not flag successful output or source code that mentions errors', () => {
+    expect(isErrorResult({ role: 'toolResult', content: 'Found 0 errors. Watching for file changes.' })).toBe(false)
+    expect(isErrorResult({ role: 'toolResult', content: 'Command exited with code 0' })).toBe(false)
+    expect(isErrorResult({ role: 'toolResult', content: 'interface Result {\n  error: string;\n}\nthrow new Error("x")' })).toBe(false)
+  })
+})
+
+describe('extractErrorLine', () => {
+  it('should pick the line that says what went wrong', () => {
+    expect(extractErrorLine(pythonTrace)).toBe("KeyError: 'DATABASE_URL'")
+    expect(extractErrorLine('> build\nError: Cannot find module \'vite\'\n    at require (node:internal:1:1)')).toBe("Error: Cannot find module 'vite'")
+    expect(extractErrorLine('compiling...\nCommand exited with code 2\n')).toBe('Command exited with code 2')
+  })
+})
+
+describe('error entries', () => {
+  const session: CompactionMessage[] = [
+    { role: 'user', content: 'Get the migration running' },
+    bash('c1', 'python migrate.py'),
+    result('c1', pythonTrace),
+    bash('c2', 'ls'),
+    result('c2', 'migrate.py  README.md'),
+    ...Array(12).fill(null).flatMap((_, i) => [
+      { role: 'user', content: `Try something else (${i})` },
+      bash(`r${i}`, 'python migrate.py'),
+      result(`r${i}`, pythonTrace)
+    ]),
+    { role: 'assistant', content: 'Still failing on the same key.' }
+  ]
+
+  it('should classify failed tool output as error, but not user messages', () => {
+    expect(classifyMessage(result('x', pythonTrace))).toBe('error')
+    expect(classifyMessage({ role: 'user', content: 'Error: it broke, please fix' })).toBe('user_intent')
+  })
+
+  it('should decay far slower than regular tool output', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(scored[2].type).toBe('error')
+    expect(scored[4].type).toBe('tool_result')
+    expect(scored[2].retention).toBeGreaterThan(scored[4].retention)
+    expect(scored[2].retention).toBeGreaterThanOrEqual(DEFAULT_CONFIG.sparseThreshold)
+  })
+
+  it('should list each distinct failure once under Known Failures', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    const summary = buildHippocampusSummary(scored, session, DEFAULT_CONFIG)
+    const lastRef = scored[scored.length - 2].id
+
+    expect(summary).toContain('## Known Failures')
+    expect(summary).toContain(`- bash(python migrate.py): KeyError: 'DATABASE_URL' (×13) [ref:${lastRef}]`)
+    expect(summary.match(/DATABASE_URL/g)).toHaveLength(1)
+    expect(summary).toContain('failures: 1')
+  })
+
+  it('should archive kept failures so their refs can be recalled', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    const failure = scored[scored.length - 2]
+    const index = { version: 1, updatedAt: '', entries: {} }
+    archiveEntries(index, scored, session, DEFAULT_CONFIG)
+
+    expect(getRetentionTier(failure, DEFAULT_CONFIG)).toBe('kept')
+    expect(recallEntries(index, { id: `[ref:${failure.id}]` }, DEFAULT_CONFIG)[0]?.content).toBe(pythonTrace)
+  })
+
+  it('should keep distinct failures apart', () => {
+    const messages = [
+      bash('a', 'npm test'), result('a', 'Error: 3 tests failed'),
+      bash('b', 'npm run build'), result('b', 'Error: 3 tests failed'),
+      bash('c', 'npm test'), result('c', 'Error: 4 tests failed')
+    ]
+    const summary = buildHippocampusSummary(scoreMessages(messages, DEFAULT_CONFIG), messages, DEFAULT_CONFIG)
+
+    expect(summary).toContain('failures: 3')
+  })
+
+  it('should render decayed errors as pointers with the error line', () => {
+    const config = { ...DEFAULT_CONFIG, lifecyclePolicies: [{ match: { type: 'error' }, action: { compression: 'aggressive' as const } }] }
+    const scored = scoreMessages(session, config)
+
+    expect(getRetentionTier(scored[2], config)).toBe('sparse')
+    expect(buildSparseIndexLine(scored[2], session[2])).toMatch(/^\[ERROR:bash\(python migrate\.py\)\] "KeyError: 'DATABASE_URL'"/)
+    expect(buildHippocampusSummary(scored, session, config)).not.toContain('## Known Failures')
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  splitSentences,
+  rankSentences,
+  summarizeExtractive,
+  scoreMessages,
+  buildHippocampusSummary,
+  HEURISTIC_TOKENIZER,
+  DEFAULT_CONFIG,
+  type HippocampusConfig,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+const report = [
+  'We investigated why the config loader ignores the workspace directory.',
+  'The weather was nice today.',
+  'The config loader reads the workspace config file before the global config file.',
+  'Because of that, the global config file overrides every workspace config value.',
+  'Lunch was pizza.',
+  'Swapping the order makes the workspace config file win over the global config.'
+].join(' ')
+
+describe('splitSentences', () => {
+  it('should split on sentence ends followed by a capital in any script', () => {
+    expect(splitSentences('First one. Second one! Third?')).toEqual(['First one.', 'Second one!', 'Third?'])
+    expect(splitSentences('Загрузчик читает файл. Потом он сливает настройки.')).toEqual(['Загрузчик читает файл.', 'Потом он сливает настройки.'])
+  })
+
+  it('should keep file names, versions and list items intact', () => {
+    expect(splitSentences('Edit src/config.ts and bump to 1.2.3 today.\n- first item\n- second item'))
+      .toEqual(['Edit src/config.ts and bump to 1.2.3 today.', 'first item', 'second item'])
+  })
+})
+
+describe('rankSentences', () => {
+  it('should rank sentences that share terms with the rest highest', () => {
+    const sentences = splitSentences(report)
+    const scores = rankSentences(sentences)
+    const weather = sentences.indexOf('The weather was nice today.')
+    const loader = sentences.findIndex((s) => s.startsWith('The config loader reads'))
+
+    expect(scores[loader]).toBeGreaterThan(scores[weather])
+  })
+})
+
+describe('summarizeExtractive', () => {
+  it('should keep the central sentences within budget, in original order', () => {
+    const summary = summarizeExtractive(report, 65, HEURISTIC_TOKENIZER)
+
+    expect(HEURISTIC_TOKENIZER.count(summary)).toBeLessThanOrEqual(65)
+    expect(summary).toContain('The config loader reads the workspace config file')
+    expect(summary).not.toContain('weather')
+    expect(summary).not.toContain('pizza')
+    expect(summary.indexOf('reads the workspace')).toBeLessThan(summary.indexOf('Swapping'))
+  })
+
+  it('should summarize Cyrillic text', () => {
+    const text = [
+      'Конфигурация загружается из рабочей директории проекта.',
+      'Сегодня шёл дождь.',
+      'Глобальная конфигурация перекрывает конфигурация рабочей директории.',
+      'Порядок загрузки конфигурация нужно поменять местами.'
+    ].join(' ')
+    const summary = summarizeExtractive(text, 35, HEURISTIC_TOKENIZER)
+
+    expect(summary).toContain('Конфигурация загружается')
+    expect(summary).not.toContain('дождь')
+  })
+
+  it('should rank a fenced code block as one outline line', () => {
+    const text = [
+      'The loader is defined below and reads the config file.',
+      '```ts',
+      'export function loadConfig(dir: string) {',
+      '  return JSON.parse(readFileSync(dir))',
+      '}',
+      '```',
+      'It is called once per session to read the config file.',
+      'Unrelated remark about the weather.'
+    ].join('\n')
+    const summary = summarizeExtractive(text, 45, HEURISTIC_TOKENIZER)
+
+    expect(summary).not.toContain('return JSON.parse')
+    expect(summary).toContain('reads the config file')
+  })
+
+  it('should leave structured content to the content-aware preview', () => {
+    const json = JSON.stringify({ name: 'my-app', version: '1.0.0', description: 'x'.repeat(400) })
+    expect(summarizeExtractive(json, 20)).toBe('{name, version, description}')
+  })
+
+  it('should return short text unchanged apart from whitespace', () => {
+    expect(summarizeExtractive('Short\nnote.', 60)).toBe('Short note.')
+  })
+})
+
+describe('extractive digests in the summary', () => {
+  const messages: CompactionMessage[] = [
+    { role: 'user', content: 'Why is the workspace config ignored?' },
+    { role: 'assistant', content: `${report}\n\n${report}` }
+  ]
+
+  it('should condense compressed entries without a model', () => {
+    const scored = scoreMessages(messages, DEFAULT_CONFIG)
+    scored[1].retention = 0.4
+    const summary = buildHippocampusSummary(scored, messages, DEFAULT_CONFIG)
+
+    expect(summary).toMatch(/\[ASSISTANT\] .+\n {2}.*The config loader reads the workspace config file/)
+  })
+
+  it('should keep plain lines when summarization is off', () => {
+    const config: HippocampusConfig = { ...DEFAULT_CONFIG, summarizer: 'none' }
+    const scored = scoreMessages(messages, config)
+    scored[1].retention = 0.4
+
+    expect(buildHippocampusSummary(scored, messages, config)).not.toMatch(/\[ASSISTANT\] .+\n {2}/)
+  })
+})
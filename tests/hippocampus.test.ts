@@ -6,6 +6,13 @@ import {
   extractPreview,
   extractToolName,
   calculateRetention,
+  calculateStrength,
+  segmentTurns,
+  computeMessageAges,
+  parseHippocampusTags,
+  assignPriority,
+  createHippocampusEntry,
+  DECAY_FUNCTIONS,
   scoreMessages,
   buildSparseIndexLine,
   extractContent,
@@ -212,7 +219,7 @@ describe('hippocampus core functions', () => {
         ]
       }
       const preview = extractPreview(message, 20)
-      expect(preview).toBe('Hello there this is …')
+      expect(preview).toBe('Hello there this is…')
     })
   })
 
@@ -315,6 +322,74 @@ describe('hippocampus core functions', () => {
       const retention = calculateRetention(0, 5, 'context', config)
       expect(retention).toBe(0)
     })
+
+    it('should use the configured decay function', () => {
+      const powerLaw: HippocampusConfig = { ...DEFAULT_CONFIG, decayFunction: 'power_law' }
+
+      const exponential = calculateRetention(1.0, 10, 'context', config)
+      const power = calculateRetention(1.0, 10, 'context', powerLaw)
+
+      expect(exponential).toBeCloseTo(Math.exp(-0.12 * 10), 6)
+      expect(power).toBeCloseTo(Math.pow(1 + 0.12 * 10, -0.5), 6)
+      expect(power).toBeGreaterThan(exponential)
+    })
+
+    it('should fall back to exponential for unknown decay functions', () => {
+      const unknown = { ...DEFAULT_CONFIG, decayFunction: 'cubic' } as unknown as HippocampusConfig
+      expect(calculateRetention(1.0, 10, 'context', unknown)).toBe(calculateRetention(1.0, 10, 'context', config))
+    })
+  })
+
+  describe('DECAY_FUNCTIONS', () => {
+    it('should leave fresh entries undecayed', () => {
+      Object.values(DECAY_FUNCTIONS).forEach(fn => {
+        expect(fn(0.2, 0)).toBe(1)
+        expect(fn(0, 50)).toBe(1)
+      })
+    })
+
+    it('should match the whitepaper power-law table', () => {
+      const fn = DECAY_FUNCTIONS.power_law
+      expect(fn(0.1, 5)).toBeCloseTo(0.82, 2)
+      expect(fn(0.1, 10)).toBeCloseTo(0.71, 2)
+      expect(fn(0.1, 20)).toBeCloseTo(0.58, 2)
+      expect(fn(0.1, 100)).toBeCloseTo(0.30, 2)
+    })
+
+    it('should decay linearly to zero after 1/λ turns', () => {
+      expect(DECAY_FUNCTIONS.linear(0.1, 5)).toBeCloseTo(0.5, 6)
+      expect(DECAY_FUNCTIONS.linear(0.1, 10)).toBe(0)
+      expect(DECAY_FUNCTIONS.linear(0.1, 20)).toBe(0)
+    })
+
+    it('should hold full strength until the step window closes', () => {
+      expect(DECAY_FUNCTIONS.step(0.1, 9)).toBe(1)
+      expect(DECAY_FUNCTIONS.step(0.1, 10)).toBe(0)
+    })
+  })
+
+  describe('calculateStrength', () => {
+    const entry = createHippocampusEntry({ role: 'tool', toolName: 'read', content: 'file body' }, { turn: 10 })
+    const withRate = { ...entry, strength: 1, decay: { rate: 0.1, floor: 0, last_access: 10 } }
+
+    it('should apply the normative power-law curve to turns since access', () => {
+      expect(calculateStrength(withRate, 10)).toBe(1)
+      expect(calculateStrength(withRate, 20)).toBeCloseTo(0.71, 2)
+    })
+
+    it('should scale the rate by priority and encoding', () => {
+      const critical = { ...withRate, modifiers: { ...withRate.modifiers, priority: 'critical' as const } }
+      const manual = { ...withRate, modifiers: { ...withRate.modifiers, encoding: 'manual' as const } }
+
+      expect(calculateStrength(critical, 110)).toBe(1)
+      expect(calculateStrength(manual, 20)).toBeCloseTo(Math.pow(1 + 0.05 * 10, -0.5), 6)
+    })
+
+    it('should respect the floor and alternative curves', () => {
+      const floored = { ...withRate, decay: { ...withRate.decay, floor: 0.4 } }
+      expect(calculateStrength(floored, 1000)).toBe(0.4)
+      expect(calculateStrength(withRate, 20, 'exponential')).toBeCloseTo(Math.exp(-1), 6)
+    })
   })
 
   describe('extractContent', () => {
@@ -417,13 +492,154 @@ describe('scoreMessages', () => {
   })
 })
 
+describe('turn-based age', () => {
+  const config = DEFAULT_CONFIG
+
+  const busyTurn: CompactionMessage[] = [
+    { role: 'user', content: 'Refactor the config loader' },
+    ...Array(30).fill(null).map((_, i) => ({ role: 'tool', toolName: 'read', content: `chunk ${i}` })),
+    { role: 'assistant', content: 'Done refactoring the loader into two modules' }
+  ]
+
+  it('should group a user message with its replies and tool traffic', () => {
+    const turns = segmentTurns([
+      { role: 'system', content: 'You are helpful' },
+      { role: 'user', content: 'Read the file' },
+      { role: 'assistant', content: [{ type: 'tool_use', name: 'read' }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', text: 'body' }] },
+      { role: 'assistant', content: 'Here it is' },
+      { role: 'user', content: 'Thanks, now test it' },
+      { role: 'toolResult', content: 'ok' }
+    ])
+
+    expect(turns).toEqual([0, 0, 0, 0, 0, 1, 1])
+  })
+
+  it('should not age a request by the tool calls in its own turn', () => {
+    const byTurn = scoreMessages(busyTurn, config)
+    const byMessage = scoreMessages(busyTurn, { ...config, ageMode: 'message' })
+
+    expect(byTurn[0].turn).toBe(0)
+    expect(byTurn[0].retention).toBeCloseTo(byTurn[0].importance, 5)
+    expect(byMessage[0].retention).toBeLessThan(byTurn[0].retention)
+  })
+
+  it('should measure age in turns by default', () => {
+    const messages: CompactionMessage[] = [
+      { role: 'user', content: 'First' },
+      { role: 'assistant', content: 'Reply one' },
+      { role: 'user', content: 'Second' },
+      { role: 'assistant', content: 'Reply two' }
+    ]
+
+    expect(computeMessageAges(messages, segmentTurns(messages), config)).toEqual([1, 1, 0, 0])
+  })
+
+  it('should measure age in wall-clock units when timestamps are present', () => {
+    const t0 = Date.parse('2026-01-01T10:00:00.000Z')
+    const messages: CompactionMessage[] = [
+      { role: 'user', content: 'Old', timestamp: t0 },
+      { role: 'user', content: 'No timestamp' },
+      { role: 'user', content: 'New', timestamp: new Date(t0 + 30 * 60_000).toISOString() }
+    ]
+    const timeConfig: HippocampusConfig = { ...config, ageMode: 'time', timeUnitMinutes: 10 }
+
+    expect(computeMessageAges(messages, segmentTurns(messages), timeConfig)).toEqual([3, 1, 0])
+  })
+
+  it('should fall back to turn age when no message has a timestamp', () => {
+    const timeConfig: HippocampusConfig = { ...config, ageMode: 'time' }
+    expect(computeMessageAges(busyTurn, segmentTurns(busyTurn), timeConfig).every(age => age === 0)).toBe(true)
+  })
+})
+
+describe('priority', () => {
+  const config = DEFAULT_CONFIG
+
+  it('should parse inline hippocampus tags', () => {
+    expect(parseHippocampusTags('Use sudo <!-- hippocampus: priority=critical persist=true -->')).toEqual({
+      priority: 'critical',
+      persist: 'true'
+    })
+    expect(parseHippocampusTags('no tags here')).toEqual({})
+  })
+
+  it('should prefer inline tags and mark them as manual encoding', () => {
+    const msg: CompactionMessage = {
+      role: 'user',
+      content: 'Never push to main directly <!-- hippocampus: priority=critical -->'
+    }
+    expect(assignPriority(msg, 'user_intent', config)).toEqual({ priority: 'critical', encoding: 'manual' })
+  })
+
+  it('should ignore unknown tag values', () => {
+    const msg: CompactionMessage = { role: 'user', content: 'Hello <!-- hippocampus: priority=urgent -->' }
+    expect(assignPriority(msg, 'user_intent', config).priority).toBe('normal')
+  })
+
+  it('should assign priority from content markers', () => {
+    expect(assignPriority({ role: 'user', content: 'Remember: always use TypeScript' }, 'user_intent', config).priority).toBe('high')
+    expect(assignPriority({ role: 'user', content: 'Запомни: деплой только по пятницам' }, 'user_intent', config).priority).toBe('high')
+    expect(assignPriority({ role: 'user', content: 'I always forget what is important here' }, 'user_intent', config).priority).toBe('normal')
+  })
+
+  it('should match word markers on word boundaries only', () => {
+    const custom: HippocampusConfig = { ...DEFAULT_CONFIG, priorityMarkers: { high: ['never', 'важно'], critical: ['#pin'] } }
+    const priority = (content: string) => assignPriority({ role: 'user', content }, 'user_intent', custom).priority
+
+    expect(priority('Never push to main')).toBe('high')
+    expect(priority('Nevertheless, carry on')).toBe('normal')
+    expect(priority('Это неважно')).toBe('normal')
+    expect(priority('Keep this #pin')).toBe('critical')
+  })
+
+  it('should not apply content markers to tool output', () => {
+    const msg: CompactionMessage = { role: 'tool', content: 'README: always run npm ci' }
+    expect(assignPriority(msg, 'tool_result', config).priority).toBe('normal')
+  })
+
+  it('should fall back to per-type defaults from config', () => {
+    expect(assignPriority({ role: 'user', content: 'heartbeat' }, 'ephemeral', config).priority).toBe('low')
+
+    const custom: HippocampusConfig = { ...DEFAULT_CONFIG, priorityByType: { tool_result: 'high' } }
+    expect(assignPriority({ role: 'tool', content: 'output' }, 'tool_result', custom).priority).toBe('high')
+  })
+
+  it('should scale decay by priority in calculateRetention', () => {
+    const normal = calculateRetention(0.8, 20, 'context', config, { priority: 'normal' })
+    const high = calculateRetention(0.8, 20, 'context', config, { priority: 'high' })
+    const low = calculateRetention(0.8, 20, 'context', config, { priority: 'low' })
+    const critical = calculateRetention(0.8, 20, 'context', config, { priority: 'critical' })
+
+    expect(critical).toBe(0.8)
+    expect(high).toBeGreaterThan(normal)
+    expect(low).toBeLessThan(normal)
+  })
+
+  it('should keep critical entries from decaying in scoreMessages', () => {
+    const messages: CompactionMessage[] = [
+      { role: 'user', content: 'Do not touch the prod database <!-- hippocampus: priority=critical -->' },
+      ...Array(40).fill(null).map((_, i) => ({ role: 'user', content: `Message ${i}` }))
+    ]
+    const [first] = scoreMessages(messages, config)
+
+    expect(first.priority).toBe('critical')
+    expect(first.encoding).toBe('manual')
+    expect(first.retention).toBeCloseTo(0.8, 6)
+  })
+})
+
 describe('buildSparseIndexLine', () => {
   it('should format tool results correctly', () => {
     const entry = {
+      id: 'ctx_000000000000',
       index: 0,
+      turn: 0,
       type: 'tool_result' as EntryType,
       importance: 0.3,
       retention: 0.2,
+      priority: 'normal' as const,
+      encoding: 'auto' as const,
       tokenEstimate: 1500,
       summary: '',
       role: 'tool',
@@ -444,10 +660,14 @@ describe('buildSparseIndexLine', () => {
 
   it('should format user intents correctly', () => {
     const entry = {
+      id: 'ctx_000000000000',
       index: 0,
+      turn: 0,
       type: 'user_intent' as EntryType,
       importance: 0.8,
       retention: 0.7,
+      priority: 'normal' as const,
+      encoding: 'auto' as const,
       tokenEstimate: 50,
       summary: '',
       role: 'user',
@@ -466,10 +686,14 @@ describe('buildSparseIndexLine', () => {
 
   it('should format decisions correctly', () => {
     const entry = {
+      id: 'ctx_000000000000',
       index: 0,
+      turn: 0,
       type: 'decision' as EntryType,
       importance: 0.9,
       retention: 0.8,
+      priority: 'normal' as const,
+      encoding: 'auto' as const,
       tokenEstimate: 100,
       summary: '',
       role: 'assistant',
@@ -488,10 +712,14 @@ describe('buildSparseIndexLine', () => {
 
   it('should handle ephemeral messages', () => {
     const entry = {
+      id: 'ctx_000000000000',
       index: 0,
+      turn: 0,
       type: 'ephemeral' as EntryType,
       importance: 0.1,
       retention: 0.05,
+      priority: 'normal' as const,
+      encoding: 'auto' as const,
       tokenEstimate: 10,
       summary: '',
       role: 'user',
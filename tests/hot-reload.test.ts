@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import hippocampus, {
+  diffConfig,
+  formatConfigChange,
+  reloadConfig,
+  resolveConfig,
+  watchConfigFiles,
+  getConfigFiles,
+  DEFAULT_CONFIG,
+  type HippocampusConfig
+} from '../extension/hippocampus'
+
+const roots: string[] = []
+
+const workspace = () => {
+  const root = mkdtempSync(join(tmpdir(), 'hippocampus-reload-'))
+  roots.push(root)
+  const dir = join(root, 'project')
+  mkdirSync(dir)
+  return { dir, globalDir: join(root, '.pi') }
+}
+
+afterEach(() => {
+  for (const root of roots.splice(0)) rmSync(root, { recursive: true, force: true })
+})
+
+const writeConfig = (dir: string, config: object | string) =>
+  writeFileSync(join(dir, 'hippocampus.config.json'), typeof config === 'string' ? config : JSON.stringify(config))
+
+/** Resolve once fn() returns a value, polling until the timeout */
+const waitFor = async <T>(fn: () => T | undefined, timeoutMs = 3000): Promise<T> => {
+  const start = Date.now()
+  for (;;) {
+    const value = fn()
+    if (value !== undefined) return value
+    if (Date.now() - start > timeoutMs) throw new Error('timed out waiting')
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+}
+
+describe('diffConfig', () => {
+  it('should list changed settings, per key for maps', () => {
+    const after: HippocampusConfig = {
+      ...DEFAULT_CONFIG,
+      sparseThreshold: 0.3,
+      decayRates: { ...DEFAULT_CONFIG.decayRates, decision: 0.02 },
+      toolProfiles: { ...DEFAULT_CONFIG.toolProfiles, browser: { summarize: 'pointer' } }
+    }
+    const changes = diffConfig(DEFAULT_CONFIG, after)
+
+    expect(changes.map(formatConfigChange)).toEqual([
+      'decayRates.decision: 0.03 → 0.02',
+      'sparseThreshold: 0.25 → 0.3',
+      'toolProfiles.browser: (unset) → {"summarize":"pointer"}'
+    ])
+    expect(diffConfig(DEFAULT_CONFIG, { ...DEFAULT_CONFIG })).toEqual([])
+  })
+})
+
+describe('reloadConfig', () => {
+  it('should apply valid changes', () => {
+    const { dir, globalDir } = workspace()
+    writeConfig(dir, { compressThreshold: 0.7 })
+    const result = reloadConfig(dir, DEFAULT_CONFIG, { globalDir, env: {} })
+
+    expect(result.status).toBe('applied')
+    expect(result.config.compressThreshold).toBe(0.7)
+    expect(result.changes).toEqual([{ path: 'compressThreshold', from: 0.65, to: 0.7 }])
+  })
+
+  it('should reject the whole reload when any value is invalid', () => {
+    const { dir, globalDir } = workspace()
+    writeConfig(dir, { compressThreshold: 0.7, sparseThreshold: 'low' })
+    const result = reloadConfig(dir, DEFAULT_CONFIG, { globalDir, env: {} })
+
+    expect(result.status).toBe('rejected')
+    expect(result.config).toBe(DEFAULT_CONFIG)
+    expect(result.issues[0].issue.path).toBe('sparseThreshold')
+  })
+
+  it('should not let an error the previous load already skipped block other edits', () => {
+    const { dir, globalDir } = workspace()
+    mkdirSync(globalDir)
+    writeFileSync(join(globalDir, 'hippocampus.config.json'), JSON.stringify({ decayRates: { decision: -1 } }))
+    const loaded = resolveConfig(dir, { globalDir, env: {} })
+
+    writeConfig(dir, { sparseThreshold: 0.3 })
+    const result = reloadConfig(dir, loaded.config, { globalDir, env: {} }, loaded.issues)
+
+    expect(result.status).toBe('applied')
+    expect(result.config.sparseThreshold).toBe(0.3)
+    expect(result.config.decayRates.decision).toBe(DEFAULT_CONFIG.decayRates.decision)
+    expect(result.issues[0].issue.path).toBe('decayRates.decision')
+
+    writeConfig(dir, { sparseThreshold: 'low' })
+    const rejected = reloadConfig(dir, result.config, { globalDir, env: {} }, result.issues)
+    expect(rejected.status).toBe('rejected')
+    expect(rejected.newErrors.map(({ issue }) => issue.path)).toEqual(['sparseThreshold'])
+  })
+
+  it('should reject half-written files', () => {
+    const { dir, globalDir } = workspace()
+    writeConfig(dir, '{ "compressThreshold": 0.')
+
+    expect(reloadConfig(dir, DEFAULT_CONFIG, { globalDir, env: {} }).status).toBe('rejected')
+  })
+
+  it('should keep the current rules when the rules file becomes invalid', () => {
+    const { dir, globalDir } = workspace()
+    const rules = join(dir, 'hippocampus.rules.json')
+    writeFileSync(rules, JSON.stringify([{ name: 'reads', match: { toolName: 'read' }, type: 'file_read' }]))
+    const current = reloadConfig(dir, DEFAULT_CONFIG, { globalDir, env: {} }).config
+
+    writeFileSync(rules, JSON.stringify([{ name: 'reads', match: { toolName: 'read' } }]))
+    const result = reloadConfig(dir, current, { globalDir, env: {} })
+
+    expect(current.classifierRules.map((rule) => rule.name)).toEqual(['reads'])
+    expect(result.status).toBe('rejected')
+    expect(result.config).toBe(current)
+    expect(result.issues).toMatchObject([{ source: rules, issue: { severity: 'error', path: 'rules[0]' } }])
+  })
+
+  it('should report edits that change nothing effective', () => {
+    const { dir, globalDir } = workspace()
+    writeConfig(dir, { sparseThreshold: 0.25, unknownKey: 1 })
+    const result = reloadConfig(dir, DEFAULT_CONFIG, { globalDir, env: {} })
+
+    expect(result.status).toBe('unchanged')
+    expect(result.issues).toHaveLength(1)
+  })
+})
+
+describe('watchConfigFiles', () => {
+  it('should call back once per burst of writes to a watched file', async () => {
+    const { dir } = workspace()
+    const onChange = vi.fn()
+    const watcher = watchConfigFiles([join(dir, 'hippocampus.config.json')], onChange, 50)
+
+    writeConfig(dir, { debug: true })
+    writeConfig(dir, { debug: false })
+    writeFileSync(join(dir, 'unrelated.txt'), 'x')
+    await waitFor(() => (onChange.mock.calls.length > 0 ? true : undefined))
+    await new Promise((resolve) => setTimeout(resolve, 150))
+    watcher.close()
+
+    expect(onChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('should skip directories that do not exist', () => {
+    expect(() => watchConfigFiles(['/nonexistent/dir/hippocampus.config.json'], () => {}).close()).not.toThrow()
+  })
+
+  it('should include the presets and classifier rules files', () => {
+    const { dir, globalDir } = workspace()
+    expect(getConfigFiles(dir, DEFAULT_CONFIG, { globalDir })).toEqual([
+      join(globalDir, 'hippocampus.config.json'),
+      join(dir, 'hippocampus.config.json'),
+      join(dir, 'hippocampus.presets.json'),
+      join(dir, 'hippocampus.rules.json')
+    ])
+  })
+})
+
+describe('hot reload in the extension', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should notify when a reload is applied or rejected', async () => {
+    const { dir } = workspace()
+    vi.spyOn(process, 'cwd').mockReturnValue(dir)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const handlers: Record<string, (event: unknown, ctx?: unknown) => unknown> = {}
+    const notices: Array<[string, string]> = []
+
+    hippocampus({
+      on: (name: string, handler: (event: unknown, ctx?: unknown) => unknown) => { handlers[name] = handler },
+      registerTool: () => {}
+    } as never)
+    handlers.session_start({}, { ui: { notify: (message: string, type: string) => notices.push([message, type]) } })
+
+    writeConfig(dir, { sparseThreshold: 0.3 })
+    const applied = await waitFor(() => notices[0])
+    expect(applied).toEqual(['🧠 hippocampus: config reloaded (sparseThreshold)', 'info'])
+
+    writeConfig(dir, { sparseThreshold: 0.9 })
+    const rejected = await waitFor(() => notices[1])
+    expect(rejected[1]).toBe('warning')
+    expect(rejected[0]).toContain('config change rejected — sparseThreshold: must be below compressThreshold')
+
+    handlers.session_shutdown({})
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractKeyData,
+  formatKeyData,
+  scoreMessages,
+  buildSparseIndexLine,
+  createHippocampusEntry,
+  DEFAULT_CONFIG,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+const vitestOutput = [
+  ' ✓ tests/config.test.ts (12 tests) 40ms',
+  ' ❯ tests/loader.test.ts (3 tests | 1 failed) 12ms',
+  '',
+  ' Test Files  1 failed | 1 passed (2)',
+  '      Tests  1 failed | 14 passed (15)',
+  '   Duration  1.20s'
+].join('\n')
+
+describe('extractKeyData', () => {
+  it('should count tests from the runner summary line', () => {
+    expect(extractKeyData(vitestOutput)?.tests).toEqual({ failed: 1, passed: 14 })
+    expect(extractKeyData('===== 2 failed, 30 passed, 1 skipped in 1.52s =====')?.tests).toEqual({ failed: 2, passed: 30, skipped: 1 })
+    expect(extractKeyData('  12 passing (40ms)\n  3 failing')?.tests).toEqual({ passed: 12, failed: 3 })
+  })
+
+  it('should collect paths, URLs and ids without mixing them up', () => {
+    const keyData = extractKeyData([
+      'src/config.ts:12:5 - warning',
+      'See https://example.com/docs/config.html for details.',
+      'Wrote package.json',
+      'request 3f2b8c1e-9a4d-4e6f-8b2a-1c5d7e9f0a3b done'
+    ].join('\n'))
+
+    expect(keyData?.paths).toEqual(['src/config.ts:12:5', 'package.json'])
+    expect(keyData?.urls).toEqual(['https://example.com/docs/config.html'])
+    expect(keyData?.ids).toEqual(['3f2b8c1e-9a4d-4e6f-8b2a-1c5d7e9f0a3b'])
+  })
+
+  it('should recognize git SHAs', () => {
+    expect(extractKeyData('a9450d6 Detect failed tool calls\n6a08520 Pair tool calls')?.shas).toEqual(['a9450d6', '6a08520'])
+    expect(extractKeyData('[main 1b2c3d4] Fix loader\n 1 file changed')?.shas).toEqual(['1b2c3d4'])
+  })
+
+  it('should keep labeled numbers and snapshot refs', () => {
+    const keyData = extractKeyData('Active users: 19\nerror rate = 0.5%\n- button "Submit" [ref=e12]\n- link "Home" [ref=e3]')
+
+    expect(keyData?.values).toEqual({ active_users: 19, error_rate: '0.5%' })
+    expect(keyData?.refs).toEqual({ Submit: 'e12', Home: 'e3' })
+  })
+
+  it('should list top-level JSON keys with short scalar values', () => {
+    const keyData = extractKeyData(JSON.stringify({ name: 'my-app', version: '1.0.0', private: true, dependencies: { a: '1' }, files: ['dist'] }))
+    expect(keyData?.json).toEqual({ name: 'my-app', version: '1.0.0', private: true, dependencies: '{…}', files: '[1]' })
+  })
+
+  it('should return undefined for output without facts', () => {
+    expect(extractKeyData('ok')).toBeUndefined()
+    expect(extractKeyData('1234567 bytes written')).toBeUndefined()
+  })
+})
+
+describe('formatKeyData', () => {
+  it('should render a compact, bounded summary', () => {
+    expect(formatKeyData({ tests: { passed: 14, failed: 1 }, paths: ['src/a.ts'], values: { users: 19 } }))
+      .toBe('{tests: 14 passed, 1 failed | paths: src/a.ts | users=19}')
+    expect(formatKeyData({ json: { name: 'my-app', dependencies: '{…}' } })).toBe('{json: name=my-app, dependencies}')
+    expect(formatKeyData({ paths: ['x'.repeat(200)] }, 20)).toBe(`{paths: ${'x'.repeat(13)}…}`)
+  })
+})
+
+describe('key data in summaries and the archive', () => {
+  const session: CompactionMessage[] = [
+    { role: 'user', content: 'Run the tests' },
+    { role: 'assistant', content: [{ type: 'toolCall', id: 'c1', name: 'bash', arguments: { command: 'npm test' } }] },
+    { role: 'toolResult', toolCallId: 'c1', toolName: 'bash', content: vitestOutput },
+    { role: 'assistant', content: 'One loader test fails.' }
+  ]
+
+  it('should attach key data to tool output only', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(scored[2].keyData?.tests).toEqual({ failed: 1, passed: 14 })
+    expect(scored[0].keyData).toBeUndefined()
+    expect(scored[3].keyData).toBeUndefined()
+  })
+
+  it('should keep the facts on sparse lines after the preview has decayed', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    expect(buildSparseIndexLine(scored[2], session[2])).toContain('{tests: 1 failed, 14 passed | paths: tests/config.test.ts, tests/loader.test.ts')
+  })
+
+  it('should store the facts as key_data on archived entries', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(createHippocampusEntry(session[2], { scored: scored[2] }).key_data).toMatchObject({ tests: { failed: 1, passed: 14 } })
+    expect(createHippocampusEntry(session[2]).key_data).toBeDefined()
+    expect(createHippocampusEntry(session[0]).key_data).toBeUndefined()
+  })
+})
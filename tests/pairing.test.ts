@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractToolCalls,
+  summarizeToolArguments,
+  pairToolCalls,
+  classifyMessage,
+  scoreMessages,
+  buildSparseIndexLine,
+  buildHippocampusSummary,
+  createAccessLog,
+  recordAccess,
+  DEFAULT_CONFIG,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+const piSession: CompactionMessage[] = [
+  { role: 'user', content: 'Why does the config fail to load?' },
+  {
+    role: 'assistant',
+    content: [
+      { type: 'toolCall', id: 'call_1', name: 'read', arguments: { path: 'src/config.ts' } },
+      { type: 'toolCall', id: 'call_2', name: 'bash', arguments: { command: 'npm test -- config\n--verbose' } }
+    ]
+  },
+  // Parallel results may arrive out of order
+  { role: 'toolResult', toolCallId: 'call_2', toolName: 'bash', content: '1 failed: config.test.ts' },
+  { role: 'toolResult', toolCallId: 'call_1', toolName: 'read', content: 'export function loadConfig() { return defaults }' },
+  { role: 'assistant', content: 'The loader ignores the workspace directory.' },
+  ...Array(8).fill(null).flatMap((_, i) => [
+    { role: 'user', content: `Unrelated question number ${i}` },
+    { role: 'assistant', content: `Unrelated answer number ${i}` }
+  ])
+]
+
+describe('extractToolCalls', () => {
+  it('should read ids, names and arguments from every transcript format', () => {
+    expect(extractToolCalls(piSession[1]).map(c => [c.id, c.name])).toEqual([['call_1', 'read'], ['call_2', 'bash']])
+    expect(extractToolCalls({
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'grep', input: { pattern: 'loadConfig' } }]
+    })).toEqual([{ id: 'toolu_1', name: 'grep', arguments: { pattern: 'loadConfig' } }])
+    expect(extractToolCalls({
+      role: 'assistant',
+      tool_calls: [{ id: 'call_a', function: { name: 'write', arguments: '{"path":"a.ts"}' } }]
+    })).toEqual([{ id: 'call_a', name: 'write', arguments: { path: 'a.ts' } }])
+  })
+})
+
+describe('summarizeToolArguments', () => {
+  it('should prefer paths and commands and keep the first line', () => {
+    expect(summarizeToolArguments({ limit: 10, path: 'src/config.ts' })).toBe('src/config.ts')
+    expect(summarizeToolArguments({ command: 'npm test\n--verbose' })).toBe('npm test')
+    expect(summarizeToolArguments({ foo: 'bar' })).toBe('bar')
+    expect(summarizeToolArguments({ path: 'x'.repeat(100) }, 10)).toBe('xxxxxxxxxx…')
+    expect(summarizeToolArguments({ limit: 10 })).toBeUndefined()
+  })
+})
+
+describe('pairToolCalls', () => {
+  it('should link results to calls by id', () => {
+    const pairing = pairToolCalls(piSession)
+
+    expect(pairing.calls.get(2)).toEqual({ index: 1, id: 'call_2', name: 'bash', args: 'npm test -- config' })
+    expect(pairing.calls.get(3)).toMatchObject({ index: 1, name: 'read', args: 'src/config.ts' })
+    expect(pairing.results.get(1)).toEqual([2, 3])
+    expect(pairing.answered.has(1)).toBe(true)
+  })
+
+  it('should link Anthropic tool_result blocks and OpenAI tool messages', () => {
+    const pairing = pairToolCalls([
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'read', input: { path: 'a.ts' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', text: 'body' }] },
+      { role: 'assistant', tool_calls: [{ id: 'call_9', function: { name: 'bash', arguments: '{"command":"ls"}' } }] },
+      { role: 'tool', tool_call_id: 'call_9', content: 'a.ts' }
+    ])
+
+    expect(pairing.calls.get(1)?.name).toBe('read')
+    expect(pairing.calls.get(3)).toMatchObject({ index: 2, name: 'bash', args: 'ls' })
+  })
+
+  it('should fall back to the oldest open call of the same tool', () => {
+    const pairing = pairToolCalls([
+      { role: 'assistant', content: [{ type: 'toolCall', name: 'read', arguments: { path: 'a.ts' } }, { type: 'toolCall', name: 'bash', arguments: { command: 'ls' } }] },
+      { role: 'toolResult', toolName: 'bash', content: 'a.ts' },
+      { role: 'toolResult', content: 'body of a.ts' }
+    ])
+
+    expect(pairing.calls.get(1)?.name).toBe('bash')
+    expect(pairing.calls.get(2)?.name).toBe('read')
+    expect(pairing.answered.has(0)).toBe(true)
+  })
+
+  it('should leave results without a matching call unpaired', () => {
+    const pairing = pairToolCalls([{ role: 'toolResult', toolCallId: 'missing', toolName: 'read', content: 'x' }])
+    expect(pairing.calls.size).toBe(0)
+  })
+
+  it('should not pair a result whose id matches no open call by name', () => {
+    const pairing = pairToolCalls([
+      { role: 'assistant', content: [{ type: 'toolCall', id: 'call_1', name: 'read', arguments: { path: 'a.ts' } }] },
+      { role: 'toolResult', toolCallId: 'call_0', toolName: 'read', content: 'stale body' },
+      { role: 'toolResult', toolCallId: 'call_1', toolName: 'read', content: 'body of a.ts' }
+    ])
+
+    expect(pairing.calls.has(1)).toBe(false)
+    expect(pairing.results.get(0)).toEqual([2])
+  })
+})
+
+describe('paired scoring and rendering', () => {
+  it('should classify Anthropic tool_result messages as tool results', () => {
+    expect(classifyMessage({ role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', text: 'body' }] })).toBe('tool_result')
+  })
+
+  it('should score a call and its results as one unit', () => {
+    const scored = scoreMessages(piSession, DEFAULT_CONFIG)
+
+    expect(scored[2].retention).toBe(scored[1].retention)
+    expect(scored[3].retention).toBe(scored[1].retention)
+    expect(scored[1].results).toEqual([2, 3])
+    expect(scored[1].merged).toBe(true)
+    expect(scored[3].call?.name).toBe('read')
+  })
+
+  it('should share the strongest priority across the unit', () => {
+    const session = piSession.map((msg, i) => i === 3 ? { ...msg, content: 'IMPORTANT: defaults are frozen' } : msg)
+    const scored = scoreMessages(session, {
+      ...DEFAULT_CONFIG,
+      lifecyclePolicies: [{ match: { contains: 'frozen' }, action: { priority: 'critical' } }]
+    })
+
+    expect(scored[1].priority).toBe('critical')
+    expect(scored[2].priority).toBe('critical')
+  })
+
+  it('should keep calls that also carry text as their own entries', () => {
+    const session: CompactionMessage[] = [
+      { role: 'assistant', content: [{ type: 'text', text: 'Let me check the file.' }, { type: 'toolCall', id: 'c1', name: 'read', arguments: { path: 'a.ts' } }] },
+      { role: 'toolResult', toolCallId: 'c1', toolName: 'read', content: 'body' }
+    ]
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(scored[0].results).toEqual([1])
+    expect(scored[0].merged).toBeUndefined()
+  })
+
+  it('should render one line with tool name, key argument and result size', () => {
+    const scored = scoreMessages(piSession, DEFAULT_CONFIG)
+    const summary = buildHippocampusSummary(scored, piSession, DEFAULT_CONFIG)
+
+    expect(buildSparseIndexLine(scored[3], piSession[3])).toMatch(/^\[TOOL:read\(src\/config\.ts\)\] \d+tok → /)
+    // The merged call message adds no line of its own
+    expect(summary.match(/read\(src\/config\.ts\)/g)).toHaveLength(1)
+    expect(summary).toContain('bash(npm test -- config)')
+    expect(summary).not.toContain('call_')
+  })
+
+  it('should reinforce a result through its own call only', () => {
+    const accessLog = createAccessLog()
+    accessLog.turn = 30
+    recordAccess(accessLog, { cues: ['src/config.ts'] })
+    const scored = scoreMessages(piSession, DEFAULT_CONFIG, accessLog)
+
+    expect(scored[3].lastAccess).toBe(30)
+    expect(scored[2].lastAccess).toBeUndefined()
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest'
+import {
+  scoreMessages,
+  matchesPolicy,
+  applyLifecyclePolicies,
+  getRetentionTier,
+  buildHippocampusSummary,
+  createHippocampusEntry,
+  archiveEntries,
+  pruneSparseIndex,
+  DEFAULT_CONFIG,
+  type HippocampusConfig,
+  type CompactionMessage,
+  type LifecyclePolicy,
+  type SparseIndex
+} from '../extension/hippocampus'
+
+const withPolicies = (lifecyclePolicies: LifecyclePolicy[]): HippocampusConfig => ({
+  ...DEFAULT_CONFIG,
+  lifecyclePolicies
+})
+
+const session: CompactionMessage[] = [
+  { role: 'user', content: 'Please set up the deploy pipeline' },
+  { role: 'tool', toolName: 'read', content: 'API_KEY=sk-live-123\nDB_URL=postgres://' },
+  ...Array(10).fill(null).flatMap((_, i) => [
+    { role: 'user', content: `Run the tests again (${i})` },
+    { role: 'tool', toolName: 'bash', content: `npm test run ${i}: 12 passed` }
+  ]),
+  { role: 'user', content: 'Which CI should we use?' },
+  { role: 'assistant', content: 'I decided to use GitHub Actions for the pipeline' }
+]
+
+describe('matchesPolicy', () => {
+  const toolMsg: CompactionMessage = { role: 'tool', toolName: 'read', content: 'Contains an API_KEY value' }
+
+  it('should match fine-grained and normative types', () => {
+    expect(matchesPolicy({ type: 'tool_result' }, toolMsg, 'tool_result', 'normal')).toBe(true)
+    expect(matchesPolicy({ type: 'state' }, { role: 'assistant', content: 'x' }, 'decision', 'normal')).toBe(true)
+    expect(matchesPolicy({ type: 'decision' }, toolMsg, 'tool_result', 'normal')).toBe(false)
+  })
+
+  it('should match contains case-insensitively against any needle', () => {
+    expect(matchesPolicy({ contains: 'api_key' }, toolMsg, 'tool_result', 'normal')).toBe(true)
+    expect(matchesPolicy({ contains: ['secret', 'API_KEY'] }, toolMsg, 'tool_result', 'normal')).toBe(true)
+    expect(matchesPolicy({ contains: 'password' }, toolMsg, 'tool_result', 'normal')).toBe(false)
+  })
+
+  it('should match source.type, role and priority', () => {
+    expect(matchesPolicy({ 'source.type': 'read' }, toolMsg, 'tool_result', 'normal')).toBe(true)
+    expect(matchesPolicy({ 'source.type': 'message.user' }, { role: 'user', content: 'hi' }, 'user_intent', 'normal')).toBe(true)
+    expect(matchesPolicy({ role: ['tool', 'toolResult'] }, toolMsg, 'tool_result', 'normal')).toBe(true)
+    expect(matchesPolicy({ priority: 'high' }, toolMsg, 'tool_result', 'normal')).toBe(false)
+  })
+
+  it('should require every present field to match', () => {
+    expect(matchesPolicy({ type: 'tool_result', contains: 'password' }, toolMsg, 'tool_result', 'normal')).toBe(false)
+    expect(matchesPolicy({}, toolMsg, 'tool_result', 'normal')).toBe(true)
+  })
+})
+
+describe('applyLifecyclePolicies', () => {
+  const msg: CompactionMessage = { role: 'tool', toolName: 'bash', content: 'npm test: 12 passed' }
+
+  it('should apply every matching policy with later ones winning', () => {
+    const config = withPolicies([
+      { name: 'tools-fast', match: { type: 'tool_result' }, action: { decay_rate: 0.5, compression: 'aggressive' } },
+      { name: 'tests-normal', match: { contains: 'npm test' }, action: { decay_rate: 0.1 } },
+      { name: 'unrelated', match: { contains: 'deploy' }, action: { persist: true } }
+    ])
+
+    const outcome = applyLifecyclePolicies(msg, 'tool_result', 'normal', config)
+    expect(outcome.policies).toEqual(['tools-fast', 'tests-normal'])
+    expect(outcome.decayRate).toBe(0.1)
+    expect(outcome.compression).toBe('aggressive')
+    expect(outcome.persist).toBeUndefined()
+  })
+
+  it('should name unnamed policies by position', () => {
+    const config = withPolicies([{ match: { role: 'tool' }, action: { priority: 'low' } }])
+    expect(applyLifecyclePolicies(msg, 'tool_result', 'normal', config).policies).toEqual(['policy[0]'])
+  })
+
+  it('should let later policies match on a priority set by earlier ones', () => {
+    const config = withPolicies([
+      { name: 'promote', match: { 'source.type': 'bash' }, action: { priority: 'high' } },
+      { name: 'keep-high', match: { priority: 'high' }, action: { compression: 'none' } }
+    ])
+    const outcome = applyLifecyclePolicies(msg, 'tool_result', 'normal', config)
+    expect(outcome.priority).toBe('high')
+    expect(outcome.compression).toBe('none')
+  })
+})
+
+describe('lifecycle policies in scoring and summaries', () => {
+  it('should leave entries untouched when no policies are configured', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    expect(scored.every(e => e.policies === undefined)).toBe(true)
+  })
+
+  it('should override the decay rate and priority of matching entries', () => {
+    const config = withPolicies([
+      { name: 'secrets', match: { contains: 'API_KEY' }, action: { priority: 'critical' } },
+      { name: 'bash-noise', match: { 'source.type': 'bash' }, action: { decay_rate: 2 } }
+    ])
+    const plain = scoreMessages(session, DEFAULT_CONFIG)
+    const scored = scoreMessages(session, config)
+
+    expect(scored[1].priority).toBe('critical')
+    expect(scored[1].policies).toEqual(['secrets'])
+    expect(getRetentionTier(scored[1], config)).toBe('pinned')
+    expect(scored[5].retention).toBeLessThan(plain[5].retention)
+  })
+
+  it('should force compression tiers regardless of retention', () => {
+    const config = withPolicies([
+      { name: 'keep-user', match: { role: 'user' }, action: { compression: 'none' } },
+      { name: 'squash-decisions', match: { type: 'decision' }, action: { compression: 'aggressive' } }
+    ])
+    const scored = scoreMessages(session, config)
+
+    expect(getRetentionTier(scored[0], config)).toBe('kept')
+    expect(getRetentionTier(scored[scored.length - 1], config)).toBe('sparse')
+  })
+
+  it('should expire entries past their hard expiry and drop them from the summary', () => {
+    const config = withPolicies([
+      { name: 'short-lived', match: { contains: 'npm test run 0' }, action: { expires_after_turns: 3 } }
+    ])
+    const scored = scoreMessages(session, config)
+    const entry = scored[3]
+
+    expect(entry.expired).toBe(true)
+    expect(entry.retention).toBe(0)
+    expect(getRetentionTier(entry, config)).toBe('expired')
+
+    const summary = buildHippocampusSummary(scored, session, config)
+    expect(summary).toContain('expired: 1')
+    expect(summary).not.toContain('npm test run 0')
+  })
+
+  it('should carry policy decisions into the normative entry', () => {
+    const config = withPolicies([
+      { name: 'secrets', match: { contains: 'API_KEY' }, action: { persist: true, decay_rate: 0.01, expires_after_turns: 50 } }
+    ])
+    const scored = scoreMessages(session, config)
+    const entry = createHippocampusEntry(session[1], { turn: 4, scored: scored[1], config })
+
+    expect(entry.decay.rate).toBe(0.01)
+    expect(entry.lifecycle).toEqual({ created: 4, expires: 54, persist: true })
+  })
+
+  it('should archive persisted entries even when kept and never evict them', () => {
+    const config = withPolicies([
+      { name: 'persist-decisions', match: { type: 'decision' }, action: { persist: true } }
+    ])
+    const scored = scoreMessages(session, config)
+    const decision = scored[scored.length - 1]
+    expect(getRetentionTier(decision, config)).toBe('kept')
+
+    const index: SparseIndex = { version: 2, updatedAt: '', entries: {} }
+    archiveEntries(index, scored, session, config)
+    expect(index.entries[decision.id].lifecycle.persist).toBe(true)
+
+    index.entries[decision.id].updatedAt = '2000-01-01T00:00:00.000Z'
+    pruneSparseIndex(index, 1)
+    expect(index.entries[decision.id]).toBeDefined()
+  })
+})
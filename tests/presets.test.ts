@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  CONFIG_PRESETS,
+  applyPreset,
+  getConfigPresets,
+  loadPresetsFile,
+  resolveConfig,
+  validateConfig,
+  formatConfigIssue,
+  DEFAULT_CONFIG
+} from '../extension/hippocampus'
+
+const roots: string[] = []
+
+const workspace = () => {
+  const root = mkdtempSync(join(tmpdir(), 'hippocampus-presets-'))
+  roots.push(root)
+  const dir = join(root, 'project')
+  mkdirSync(dir)
+  return { dir, globalDir: join(root, '.pi') }
+}
+
+afterEach(() => {
+  for (const root of roots.splice(0)) rmSync(root, { recursive: true, force: true })
+})
+
+const teamPresets = {
+  presets: {
+    backend: {
+      description: 'Our services: long test logs, decisions stick',
+      extends: 'coding',
+      config: { sparseThreshold: 0.3, toolProfiles: { bash: { decayRate: 0.1, summarize: 'tail' } } }
+    }
+  }
+}
+
+describe('built-in presets', () => {
+  it('should ship the five named presets, all valid', () => {
+    expect(Object.keys(CONFIG_PRESETS).sort()).toEqual(['aggressive', 'balanced', 'coding', 'conservative', 'research'])
+    for (const preset of Object.values(CONFIG_PRESETS)) {
+      expect(validateConfig(preset.config).issues).toEqual([])
+      expect(preset.description).not.toBe('')
+    }
+  })
+
+  it('should order the presets from forgetful to retentive', () => {
+    const rate = (name: string) => applyPreset(name, CONFIG_PRESETS).config.decayRates.context
+    expect(rate('aggressive')).toBeGreaterThan(rate('balanced'))
+    expect(rate('balanced')).toBeGreaterThan(rate('conservative'))
+    expect(applyPreset('balanced', CONFIG_PRESETS).config).toEqual(DEFAULT_CONFIG)
+  })
+
+  it('should tune tool profiles and keep the ones a preset does not list', () => {
+    const { config } = applyPreset('research', CONFIG_PRESETS)
+    expect(config.toolProfiles['web_*']).toMatchObject({ retrievable: false })
+    expect(config.toolProfiles.write).toEqual(DEFAULT_CONFIG.toolProfiles.write)
+  })
+})
+
+describe('applyPreset', () => {
+  it('should suggest the closest name for an unknown preset', () => {
+    const { config, issues } = applyPreset('codng', CONFIG_PRESETS)
+
+    expect(config).toBe(DEFAULT_CONFIG)
+    expect(issues[0].suggestion).toBe('coding')
+    expect(formatConfigIssue(issues[0])).toMatch(/^preset: unknown preset "codng" \(did you mean "coding"\?\); available: balanced, /)
+  })
+
+  it('should follow extends chains and stop at loops', () => {
+    const presets = {
+      ...CONFIG_PRESETS,
+      a: { description: '', extends: 'b', config: { debug: true } },
+      b: { description: '', extends: 'a', config: {} }
+    }
+    expect(applyPreset('a', presets).issues[0].message).toBe('preset extends chain loops: a → b → a')
+  })
+})
+
+describe('team presets', () => {
+  it('should read presets and extend built-ins', () => {
+    const { dir } = workspace()
+    writeFileSync(join(dir, 'hippocampus.presets.json'), JSON.stringify(teamPresets))
+    const { presets, issues } = getConfigPresets(dir)
+    const { config } = applyPreset('backend', presets)
+
+    expect(issues).toEqual([])
+    expect(Object.keys(presets)).toContain('backend')
+    expect(config.sparseThreshold).toBe(0.3)
+    expect(config.decayRates).toEqual(CONFIG_PRESETS.coding.config.decayRates)
+    expect(config.toolProfiles.bash).toEqual({ decayRate: 0.1, summarize: 'tail' })
+    expect(config.toolProfiles.read).toEqual(CONFIG_PRESETS.coding.config.toolProfiles!.read)
+  })
+
+  it('should validate preset settings like config files', () => {
+    const { dir } = workspace()
+    const path = join(dir, 'team.json')
+    writeFileSync(path, JSON.stringify({ presets: { fast: { config: { decayRates: { context: -1 }, preset: 'coding' } }, broken: 3 } }))
+    const { presets, issues } = loadPresetsFile(path)
+
+    expect(presets.fast.config).toEqual({ decayRates: {} })
+    expect(issues.map(formatConfigIssue)).toEqual([
+      'presets.fast.config: presets cannot select presets; use extends',
+      'presets.fast.config.decayRates.context: must be at least 0, got -1',
+      'presets.broken: must be an object with description, extends and config'
+    ])
+  })
+})
+
+describe('presets in resolveConfig', () => {
+  it('should apply the preset under every explicit setting', () => {
+    const { dir, globalDir } = workspace()
+    mkdirSync(globalDir)
+    writeFileSync(join(globalDir, 'hippocampus.config.json'), JSON.stringify({ preset: 'aggressive' }))
+    writeFileSync(join(dir, 'hippocampus.config.json'), JSON.stringify({ compressThreshold: 0.8 }))
+    const { config, issues } = resolveConfig(dir, { globalDir, env: {} })
+
+    expect(issues).toEqual([])
+    expect(config.preset).toBe('aggressive')
+    expect(config.sparseThreshold).toBe(0.35)
+    expect(config.compressThreshold).toBe(0.8)
+    expect(config.decayRates.context).toBe(0.2)
+  })
+
+  it('should let a later layer pick another preset, including a team one', () => {
+    const { dir, globalDir } = workspace()
+    mkdirSync(globalDir)
+    writeFileSync(join(globalDir, 'hippocampus.config.json'), JSON.stringify({ preset: 'aggressive' }))
+    writeFileSync(join(dir, 'hippocampus.presets.json'), JSON.stringify(teamPresets))
+
+    expect(resolveConfig(dir, { globalDir, env: { HIPPOCAMPUS_PRESET: 'backend' } }).config.sparseThreshold).toBe(0.3)
+  })
+
+  it('should fall back to the defaults when the preset is unknown', () => {
+    const { dir, globalDir } = workspace()
+    const { config, issues } = resolveConfig(dir, { globalDir, env: { HIPPOCAMPUS_PRESET: 'researh' } })
+
+    expect(config.decayRates).toEqual(DEFAULT_CONFIG.decayRates)
+    expect(issues).toMatchObject([{ source: 'preset', issue: { severity: 'error', suggestion: 'research' } }])
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectContentKind,
+  previewContent,
+  clipText,
+  extractPreview,
+  buildSparseIndexLine,
+  scoreMessages,
+  DEFAULT_CONFIG,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+const source = [
+  "import { readFileSync } from 'node:fs'",
+  '',
+  'const DEFAULTS = { retries: 3 }',
+  '',
+  'export function loadConfig(dir: string): Config {',
+  "  const raw = readFileSync(dir + '/config.json', 'utf-8')",
+  '  return { ...DEFAULTS, ...JSON.parse(raw) }',
+  '}',
+  '',
+  'export class ConfigStore {',
+  '  private cache = new Map<string, Config>()',
+  '}'
+].join('\n')
+
+const patch = [
+  'diff --git a/src/config.ts b/src/config.ts',
+  '--- a/src/config.ts',
+  '+++ b/src/config.ts',
+  '@@ -1,3 +1,4 @@',
+  '-const DEFAULTS = { retries: 3 }',
+  '+const DEFAULTS = { retries: 5 }',
+  '+const TIMEOUT = 1000',
+  'diff --git a/README.md b/README.md',
+  '--- a/README.md',
+  '+++ b/README.md',
+  '@@ -10 +10 @@',
+  '-Retries: 3',
+  '+Retries: 5'
+].join('\n')
+
+const buildLog = [
+  '> tsc -p tsconfig.json',
+  'Compiling 42 modules',
+  'src/config.ts emitted',
+  'src/store.ts emitted',
+  'dist/index.js 12.4 kB',
+  'Done in 3.2s'
+].join('\n')
+
+describe('detectContentKind', () => {
+  it('should tell prose, code, JSON, logs and diffs apart', () => {
+    expect(detectContentKind('I looked at the loader. It ignores the workspace directory.')).toBe('prose')
+    expect(detectContentKind('Findings:\n- the loader is wrong\n- the cache is stale\n- tests are flaky')).toBe('prose')
+    expect(detectContentKind(source)).toBe('code')
+    expect(detectContentKind('{"name": "my-app", "version": "1.0.0"}')).toBe('json')
+    expect(detectContentKind(buildLog)).toBe('log')
+    expect(detectContentKind(patch)).toBe('diff')
+  })
+})
+
+describe('previewContent', () => {
+  it('should return content that fits unchanged', () => {
+    expect(previewContent(source, 1000)).toBe(source)
+  })
+
+  it('should keep the first meaningful sentence of prose', () => {
+    const text = 'Sure! The loader ignores the workspace directory, so defaults always win. ' + 'More detail follows here. '.repeat(10)
+    expect(previewContent(text, 80)).toBe('The loader ignores the workspace directory, so defaults always win.')
+  })
+
+  it('should cut long sentences at a word boundary', () => {
+    const preview = previewContent('The configuration loader reads every file in the workspace directory before merging them together', 40)
+    expect(preview).toBe('The configuration loader reads every…')
+  })
+
+  it('should outline code by its signature lines', () => {
+    expect(previewContent(source, 100)).toBe('export function loadConfig(dir: string): Config; export class ConfigStore (12 lines)')
+  })
+
+  it('should list the top-level keys of JSON', () => {
+    const pkg = JSON.stringify({ name: 'my-app', version: '1.0.0', scripts: { test: 'vitest' }, dependencies: { a: '1' } }, null, 2)
+    expect(previewContent(pkg, 60)).toBe('{name, version, scripts, dependencies}')
+    expect(previewContent(JSON.stringify([{ id: 1, title: 'a' }, { id: 2, title: 'b' }, { id: 3, title: 'c' }]), 30)).toBe('[3 items of {id, title}]')
+  })
+
+  it('should keep the first and last lines of logs', () => {
+    expect(previewContent(buildLog, 60)).toBe('> tsc -p tsconfig.json … (6 lines) … Done in 3.2s')
+  })
+
+  it('should summarize patches by their stats', () => {
+    expect(previewContent(patch, 80)).toBe('diff: 2 files, +3 -2 (src/config.ts, README.md)')
+  })
+})
+
+describe('clipText', () => {
+  it('should only cut mid-word when no boundary is close', () => {
+    expect(clipText('short', 10)).toBe('short')
+    expect(clipText('alpha beta gamma', 12)).toBe('alpha beta…')
+    expect(clipText('x'.repeat(20), 5)).toBe('xxxxx…')
+  })
+})
+
+describe('content-aware previews in summaries', () => {
+  it('should preview read results by their outline', () => {
+    const msg: CompactionMessage = { role: 'toolResult', toolName: 'read', content: source }
+    expect(extractPreview(msg, 100)).toContain('export function loadConfig')
+  })
+
+  it('should not cut sparse lines mid-word', () => {
+    const messages: CompactionMessage[] = [
+      { role: 'user', content: 'Please refactor the configuration loader so that the workspace directory takes precedence over global defaults' }
+    ]
+    const [entry] = scoreMessages(messages, DEFAULT_CONFIG)
+    expect(buildSparseIndexLine(entry, messages[0])).toMatch(/^\[USER\] "Please refactor the configuration loader so that the workspace directory takes precedence over…"/)
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import hippocampus, {
+  tokenizeCue,
+  recallEntries,
+  formatRecallResult,
+  RECALL_TOOL_NAME,
+  createHippocampusEntry,
+  DEFAULT_CONFIG,
+  type SparseIndex,
+  type SparseIndexRecord
+} from '../extension/hippocampus'
+
+const record = (id: string, summary: string, content: string, strength = 0.2): SparseIndexRecord => ({
+  ...createHippocampusEntry({ role: 'tool', toolName: 'read', content }),
+  id,
+  summary,
+  strength,
+  category: 'tool_result',
+  role: 'tool',
+  toolName: 'read',
+  tokenEstimate: Math.ceil(content.length / 4),
+  content,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+})
+
+const index: SparseIndex = {
+  version: 1,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  entries: {
+    ctx_aaaaaaaaaaaa: record('ctx_aaaaaaaaaaaa', '[TOOL:read] 40tok → "src/config.ts"', 'export function loadConfig() { return defaults }'),
+    ctx_bbbbbbbbbbbb: record('ctx_bbbbbbbbbbbb', '[TOOL:bash] 30tok → "npm test"', 'Tests: 12 passed, 1 failed in config.test.ts', 0.4),
+    ctx_cccccccccccc: record('ctx_cccccccccccc', '[USER] "Разверни сервис на staging"', 'Разверни сервис на staging и проверь логи')
+  }
+}
+
+describe('recallEntries', () => {
+  it('should resolve an entry by id', () => {
+    const matches = recallEntries(index, { id: 'ctx_aaaaaaaaaaaa' }, DEFAULT_CONFIG)
+    expect(matches).toHaveLength(1)
+    expect(matches[0].content).toBe('export function loadConfig() { return defaults }')
+    expect(matches[0].truncated).toBe(false)
+  })
+
+  it('should accept ids wrapped in a [ref:…] tag', () => {
+    const matches = recallEntries(index, { id: '[ref:ctx_bbbbbbbbbbbb]' }, DEFAULT_CONFIG)
+    expect(matches[0].record.id).toBe('ctx_bbbbbbbbbbbb')
+  })
+
+  it('should return nothing for unknown ids', () => {
+    expect(recallEntries(index, { id: 'ctx_missing' }, DEFAULT_CONFIG)).toEqual([])
+  })
+
+  it('should rank cue matches by overlap then strength', () => {
+    const matches = recallEntries(index, { cue: 'config' }, DEFAULT_CONFIG)
+    expect(matches.map(m => m.record.id)).toEqual(['ctx_aaaaaaaaaaaa', 'ctx_bbbbbbbbbbbb'])
+  })
+
+  it('should match Cyrillic cues', () => {
+    const matches = recallEntries(index, { cue: 'staging сервис' }, DEFAULT_CONFIG)
+    expect(matches[0].record.id).toBe('ctx_cccccccccccc')
+  })
+
+  it('should cap returned content at the token budget', () => {
+    const big: SparseIndex = {
+      ...index,
+      entries: { ctx_dddddddddddd: record('ctx_dddddddddddd', '[TOOL:read] big', 'x'.repeat(10000)) }
+    }
+    const matches = recallEntries(big, { id: 'ctx_dddddddddddd', maxTokens: 100 }, DEFAULT_CONFIG)
+    expect(matches[0].truncated).toBe(true)
+    expect(matches[0].content.length).toBe(401)
+  })
+
+  it('should not let callers exceed the configured recall cap', () => {
+    const config = { ...DEFAULT_CONFIG, recallMaxTokens: 10 }
+    const matches = recallEntries(index, { id: 'ctx_aaaaaaaaaaaa', maxTokens: 100000 }, config)
+    expect(matches[0].truncated).toBe(true)
+  })
+})
+
+describe('recall tool', () => {
+  it('should tokenize cues into unique lowercase terms', () => {
+    expect(tokenizeCue('Read src/config.ts and CONFIG')).toEqual(['read', 'src/config.ts', 'and', 'config'])
+  })
+
+  it('should format misses and hits for the agent', () => {
+    expect(formatRecallResult([], { cue: 'nothing' })).toContain('No archived hippocampus entries match cue "nothing"')
+
+    const matches = recallEntries(index, { id: 'ctx_aaaaaaaaaaaa' }, DEFAULT_CONFIG)
+    const text = formatRecallResult(matches, { id: 'ctx_aaaaaaaaaaaa' })
+    expect(text).toContain('## ctx_aaaaaaaaaaaa [tool_result read]')
+    expect(text).toContain('loadConfig')
+  })
+
+  it('should register the recall tool with the extension API', async () => {
+    const tools: Array<{ name: string; execute: (id: string, params: unknown) => Promise<{ isError?: boolean }> }> = []
+    hippocampus({
+      on: () => {},
+      registerTool: (tool: (typeof tools)[number]) => tools.push(tool)
+    } as never)
+
+    expect(tools.map(t => t.name)).toEqual([RECALL_TOOL_NAME])
+    const result = await tools[0].execute('call_1', {})
+    expect(result.isError).toBe(true)
+  })
+
+  it('should reject recall arguments of the wrong type', async () => {
+    const tools: Array<{ execute: (id: string, params: unknown) => Promise<{ isError?: boolean; content: Array<{ text: string }> }> }> = []
+    hippocampus({ on: () => {}, registerTool: (tool: (typeof tools)[number]) => tools.push(tool) } as never)
+    const error = async (params: unknown) => {
+      const result = await tools[0].execute('call_1', params)
+      expect(result.isError).toBe(true)
+      return result.content[0].text
+    }
+
+    expect(await error({ id: 42 })).toBe('id must be a string.')
+    expect(await error({ cue: ['a'] })).toBe('cue must be a string.')
+    expect(await error({ cue: 'config', maxTokens: 'lots' })).toBe('maxTokens must be a positive number.')
+    expect(await error({ cue: 'config', maxTokens: 0 })).toBe('maxTokens must be a positive number.')
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractIdentifiers,
+  buildReferenceIndex,
+  findReferences,
+  getReferenceBonus,
+  scoreMessages,
+  DEFAULT_CONFIG,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+describe('extractIdentifiers', () => {
+  it('should collect paths, names, urls, ids and distinctive numbers', () => {
+    const ids = extractIdentifiers(
+      'loadConfig() in src/config.ts reads DEFAULT_CONFIG and user_settings; see https://example.com/a. ' +
+      'Commit 1b2c3d4 listens on port 8080 with 3 retries.'
+    )
+
+    expect([...ids]).toEqual(expect.arrayContaining([
+      'https://example.com/a', 'src/config.ts', 'config.ts', 'loadConfig', 'DEFAULT_CONFIG', 'user_settings', '1b2c3d4', '8080'
+    ]))
+    expect(ids.has('3')).toBe(false)
+    expect(ids.has('reads')).toBe(false)
+  })
+})
+
+describe('findReferences', () => {
+  const messages: CompactionMessage[] = [
+    { role: 'toolResult', toolName: 'read', content: 'export function loadConfig(dir) { return merge(DEFAULTS, dir) }' },
+    { role: 'user', content: 'Why does loadConfig ignore the workspace?' },
+    { role: 'assistant', content: 'Unrelated: the weather is fine.' },
+    { role: 'assistant', content: 'Because merge(DEFAULTS, dir) runs before the workspace file is read.' }
+  ]
+
+  it('should find later messages mentioning the entry identifiers', () => {
+    const index = buildReferenceIndex(messages)
+    expect(findReferences(index, 0)).toEqual([1, 3])
+    expect(findReferences(index, 0, [1])).toEqual([3])
+    expect(findReferences(index, 3)).toEqual([])
+  })
+
+  it('should index tool call arguments too', () => {
+    const index = buildReferenceIndex([
+      { role: 'assistant', content: [{ type: 'toolCall', id: 'c1', name: 'read', arguments: { path: 'src/store.ts' } }] },
+      { role: 'user', content: 'Now fix store.ts' }
+    ])
+    expect(findReferences(index, 0)).toEqual([1])
+  })
+})
+
+describe('getReferenceBonus', () => {
+  it('should grow with the number of references and favor recent ones', () => {
+    const turns = [0, 1, 2, 3, 10]
+    const one = getReferenceBonus([4], turns, 10)
+    const two = getReferenceBonus([3, 4], turns, 10)
+    const old = getReferenceBonus([1], turns, 10)
+
+    expect(getReferenceBonus([], turns, 10)).toBe(0)
+    expect(two).toBeGreaterThan(one)
+    expect(one).toBeGreaterThan(old)
+    expect(getReferenceBonus([4, 4, 4, 4, 4, 4, 4, 4], turns, 10)).toBeLessThanOrEqual(0.2)
+  })
+})
+
+describe('reference bonus in scoring', () => {
+  const session: CompactionMessage[] = [
+    { role: 'user', content: 'Find why the build fails' },
+    { role: 'assistant', content: [{ type: 'toolCall', id: 'c1', name: 'bash', arguments: { command: 'npm run build' } }] },
+    { role: 'toolResult', toolCallId: 'c1', toolName: 'bash', content: 'src/parser.ts(12,3): cannot find name parseHeader' },
+    { role: 'assistant', content: [{ type: 'toolCall', id: 'c2', name: 'bash', arguments: { command: 'ls dist' } }] },
+    { role: 'toolResult', toolCallId: 'c2', toolName: 'bash', content: 'index.js  index.d.ts' },
+    ...Array(6).fill(null).flatMap((_, i) => [
+      { role: 'user', content: `Question ${i}` },
+      { role: 'assistant', content: `Answer ${i}` }
+    ]),
+    { role: 'assistant', content: 'parseHeader was renamed, so src/parser.ts needs the new import.' }
+  ]
+
+  it('should reward tool output whose identifiers are mentioned later', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(scored[2].references).toBe(1)
+    expect(scored[4].references).toBeUndefined()
+    expect(scored[2].importance).toBeGreaterThan(scored[4].importance)
+  })
+
+  it('should not count a call and its own result as references', () => {
+    const scored = scoreMessages([
+      { role: 'assistant', content: [{ type: 'toolCall', id: 'c1', name: 'read', arguments: { path: 'src/a.ts' } }] },
+      { role: 'toolResult', toolCallId: 'c1', toolName: 'read', content: '// src/a.ts\nexport const a = 1' }
+    ], DEFAULT_CONFIG)
+
+    expect(scored[0].references).toBeUndefined()
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createHippocampusEntry,
+  validateHippocampusEntry,
+  isHippocampusEntry,
+  toHippocampusEntryType,
+  computeEntryId,
+  scoreMessages,
+  DEFAULT_CONFIG,
+  type CompactionMessage,
+  type HippocampusEntry
+} from '../extension/hippocampus'
+import * as library from '../src/index'
+
+describe('HippocampusEntry schema', () => {
+  const toolMessage: CompactionMessage = {
+    role: 'tool',
+    toolName: 'read',
+    content: 'export const answer = 42'
+  }
+
+  it('should map classifications onto normative entry types', () => {
+    expect(toHippocampusEntryType('tool_result')).toBe('tool_result')
+    expect(toHippocampusEntryType('decision')).toBe('state')
+    expect(toHippocampusEntryType('user_intent')).toBe('message')
+    expect(toHippocampusEntryType('ephemeral')).toBe('message')
+  })
+
+  it('should build a valid entry from a tool result message', () => {
+    const entry = createHippocampusEntry(toolMessage, { turn: 7 })
+
+    expect(entry.id).toBe(computeEntryId(toolMessage))
+    expect(entry.type).toBe('tool_result')
+    expect(entry.source).toEqual({ type: 'read', ref: entry.id, turn: 7, retrievable: true })
+    expect(entry.decay).toEqual({ rate: DEFAULT_CONFIG.decayRates.tool_result, floor: 0, last_access: 7 })
+    expect(entry.modifiers).toEqual({ priority: 'normal', encoding: 'auto', associations: [] })
+    expect(entry.lifecycle).toEqual({ created: 7, persist: false })
+    expect(validateHippocampusEntry(entry)).toEqual({ valid: true, errors: [] })
+  })
+
+  it('should reuse an existing score instead of re-classifying', () => {
+    const messages: CompactionMessage[] = [
+      { role: 'assistant', content: 'I decided to use SQLite for the cache layer.' }
+    ]
+    const [scored] = scoreMessages(messages, DEFAULT_CONFIG)
+    const entry = createHippocampusEntry(messages[0], { scored })
+
+    expect(entry.type).toBe('state')
+    expect(entry.strength).toBe(scored.retention)
+    expect(entry.decay.floor).toBe(DEFAULT_CONFIG.retentionFloor.decision)
+    expect(entry.source.type).toBe('message.assistant')
+  })
+
+  it('should reject non-objects', () => {
+    expect(validateHippocampusEntry(null)).toEqual({ valid: false, errors: ['entry must be an object'] })
+    expect(isHippocampusEntry('ctx_1')).toBe(false)
+  })
+
+  it('should report every malformed field', () => {
+    const entry = createHippocampusEntry(toolMessage)
+    const broken = {
+      ...entry,
+      type: 'blob',
+      strength: 1.5,
+      decay: { ...entry.decay, rate: -1 },
+      modifiers: { ...entry.modifiers, priority: 'urgent', associations: [1] },
+      lifecycle: { created: 10, expires: 5, persist: 'no' }
+    }
+
+    const { valid, errors } = validateHippocampusEntry(broken)
+    expect(valid).toBe(false)
+    expect(errors).toEqual([
+      'type must be one of tool_result, message, state, memory',
+      'strength must be a number between 0 and 1',
+      'decay.rate must be a non-negative number',
+      'modifiers.priority must be one of critical, high, normal, low',
+      'modifiers.associations must be an array of strings',
+      'lifecycle.expires must not precede lifecycle.created',
+      'lifecycle.persist must be a boolean'
+    ])
+  })
+
+  it('should require nested objects', () => {
+    const entry: Partial<HippocampusEntry> = { ...createHippocampusEntry(toolMessage) }
+    delete entry.source
+    delete entry.lifecycle
+
+    expect(validateHippocampusEntry(entry).errors).toEqual([
+      'source must be an object',
+      'lifecycle must be an object'
+    ])
+  })
+
+  it('should be exported from the library entry point', () => {
+    const entry = library.createHippocampusEntry(toolMessage)
+    expect(library.isHippocampusEntry(entry)).toBe(true)
+    expect(library.validateHippocampusEntry({}).valid).toBe(false)
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  simulateCompaction,
+  computeCompactionStats,
+  buildHippocampusSummary,
+  scoreMessages,
+  planSummary,
+  resolveConfig,
+  applyPreset,
+  CONFIG_PRESETS,
+  DEFAULT_CONFIG,
+  type CompactionMessage
+} from '../extension/hippocampus'
+
+const session: CompactionMessage[] = [
+  { role: 'user', content: 'Build me a login system with sqlite sessions' },
+  { role: 'assistant', content: [{ type: 'toolCall', id: 'c1', name: 'read', arguments: { path: 'src/db.ts' } }] },
+  { role: 'toolResult', toolCallId: 'c1', toolName: 'read', content: 'export const pool = createPool({ max: 2 })' },
+  { role: 'assistant', content: 'Decision: we use sqlite with a pool of 10 in src/db.ts.' },
+  ...Array(12).fill(null).flatMap((_, i) => [
+    { role: 'user', content: `Unrelated question ${i}` },
+    { role: 'assistant', content: `Unrelated answer ${i}` }
+  ])
+]
+
+describe('simulateCompaction', () => {
+  it('should produce the summary the extension would return', () => {
+    const result = simulateCompaction(session, DEFAULT_CONFIG)
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(result.summary).toBe(buildHippocampusSummary(scored, session, DEFAULT_CONFIG))
+    expect(result.scored.map((e) => e.retention)).toEqual(scored.map((e) => e.retention))
+    expect(result.tokenizer).toBe('heuristic')
+    expect(result.summaryTokens).toBeGreaterThan(0)
+  })
+
+  it('should count every entry in exactly one tier', () => {
+    const { stats } = simulateCompaction(session, DEFAULT_CONFIG)
+
+    expect(stats.total).toBe(session.length)
+    expect(stats.sparse + stats.compressed + stats.kept + stats.pinned + stats.expired + stats.dropped + stats.failures).toBe(stats.total)
+    expect(stats.reinforced).toBe(0)
+  })
+
+  it('should show how a preset changes the outcome', () => {
+    const balanced = simulateCompaction(session, DEFAULT_CONFIG).stats
+    const aggressive = simulateCompaction(session, applyPreset('aggressive', CONFIG_PRESETS).config).stats
+
+    expect(aggressive.sparse).toBeGreaterThan(balanced.sparse)
+    expect(aggressive.totalTokens).toBe(balanced.totalTokens)
+  })
+
+  it('should report the tiers the summary uses, not the retention thresholds', () => {
+    const config = { ...DEFAULT_CONFIG, targetSummaryTokens: 60 }
+    const result = simulateCompaction(session, config)
+    const plan = planSummary(scoreMessages(session, config), session, config)
+
+    expect(result.summary).toBe(buildHippocampusSummary(result.scored, session, config, undefined, undefined, plan))
+    expect(result.tiers.filter((tier) => tier === 'dropped').length).toBe(result.stats.dropped)
+    expect(result.stats.dropped).toBeGreaterThan(0)
+    plan.entries.forEach((entry, i) => expect(result.tiers[entry.index]).toBe(plan.tiers[i]))
+  })
+
+  it('should pass the previous summary through', () => {
+    expect(simulateCompaction(session, DEFAULT_CONFIG, undefined, 'Earlier: set up the repo').summary)
+      .toContain('Earlier: set up the repo')
+  })
+})
+
+describe('computeCompactionStats', () => {
+  it('should count errors and policy matches', () => {
+    const messages: CompactionMessage[] = [
+      { role: 'toolResult', toolName: 'bash', content: 'Error: ENOENT: no such file, open config.json', isError: true },
+      { role: 'user', content: 'the API_KEY is abc123' }
+    ]
+    const config = {
+      ...DEFAULT_CONFIG,
+      lifecyclePolicies: [{ name: 'secrets', match: { contains: ['API_KEY'] }, action: { compression: 'aggressive' as const } }]
+    }
+    const scored = scoreMessages(messages, config)
+    const stats = computeCompactionStats(scored, planSummary(scored, messages, config))
+
+    expect(stats).toMatchObject({ total: 2, errors: 1, failures: 1, policyMatches: 1 })
+  })
+})
+
+describe('candidate config files', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'hippocampus-simulate-'))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should layer an extra config file over the workspace config', () => {
+    const dir = join(root, 'project')
+    mkdirSync(dir)
+    writeFileSync(join(dir, 'hippocampus.config.json'), JSON.stringify({ sparseThreshold: 0.3, debug: true }))
+    writeFileSync(join(dir, 'candidate.json'), JSON.stringify({ sparseThreshold: 0.4 }))
+    const { config, issues } = resolveConfig(dir, { globalDir: join(root, '.pi'), env: {}, configFile: 'candidate.json' })
+
+    expect(issues).toEqual([])
+    expect(config.sparseThreshold).toBe(0.4)
+    expect(config.debug).toBe(true)
+  })
+})
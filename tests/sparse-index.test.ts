@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  scoreMessages,
+  computeEntryId,
+  buildHippocampusSummary,
+  planSummary,
+  recallEntries,
+  getRetentionTier,
+  loadSparseIndex,
+  saveSparseIndex,
+  archiveEntries,
+  pruneSparseIndex,
+  resolveWorkspacePath,
+  createHippocampusEntry,
+  isHippocampusEntry,
+  DEFAULT_CONFIG,
+  type CompactionMessage,
+  type SparseIndex
+} from '../extension/hippocampus'
+
+describe('sparse index store', () => {
+  let dir: string
+  let indexPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hippocampus-index-'))
+    indexPath = join(dir, '.pi', 'hippocampus-index.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const session: CompactionMessage[] = [
+    { role: 'user', content: 'Please read the config loader and explain it' },
+    ...Array(20).fill(null).map((_, i) => ({
+      role: 'tool',
+      toolName: 'read',
+      content: `File chunk ${i}: ${'export const value = 42;\n'.repeat(20)}`
+    })),
+    { role: 'assistant', content: 'The loader merges defaults with the workspace file.' }
+  ]
+
+  it('should compute stable, content-addressed entry ids', () => {
+    const a = computeEntryId({ role: 'tool', content: 'same output' })
+    const b = computeEntryId({ role: 'tool', content: 'same output' })
+    const c = computeEntryId({ role: 'tool', content: 'different output' })
+
+    expect(a).toMatch(/^ctx_[0-9a-f]{12}$/)
+    expect(a).toBe(b)
+    expect(a).not.toBe(c)
+  })
+
+  it('should give identical output from different calls different ids', () => {
+    const result = (toolCallId: string): CompactionMessage => ({ role: 'toolResult', toolCallId, toolName: 'bash', content: 'ok' })
+    const first = computeEntryId(result('call_1'))
+
+    expect(first).toBe(computeEntryId(result('call_1')))
+    expect(first).not.toBe(computeEntryId(result('call_2')))
+    expect(computeEntryId({ role: 'user', content: 'continue', timestamp: 1 }))
+      .not.toBe(computeEntryId({ role: 'user', content: 'continue', timestamp: 2 }))
+  })
+
+  it('should return an empty index when the file is missing or corrupt', () => {
+    expect(loadSparseIndex(indexPath).entries).toEqual({})
+
+    saveSparseIndex(indexPath, { version: 1, updatedAt: '', entries: {} })
+    writeFileSync(indexPath, 'not json {')
+    expect(loadSparseIndex(indexPath).entries).toEqual({})
+  })
+
+  it('should archive sparse and compressed entries with their full content', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    const index = loadSparseIndex(indexPath)
+
+    const archived = archiveEntries(index, scored, session, DEFAULT_CONFIG)
+    saveSparseIndex(indexPath, index)
+
+    const expected = scored.filter(e => e.retention < DEFAULT_CONFIG.compressThreshold)
+    expect(archived).toBe(expected.length)
+    expect(archived).toBeGreaterThan(0)
+
+    const onDisk = JSON.parse(readFileSync(indexPath, 'utf-8')) as SparseIndex
+    const record = onDisk.entries[expected[0].id]
+    expect(record.content).toBe(session[expected[0].index].content)
+    expect(record.summary).toContain(`[ref:${record.id}]`)
+    expect(isHippocampusEntry(record)).toBe(true)
+  })
+
+  it('should drop archived records that do not match the entry schema on load', () => {
+    saveSparseIndex(indexPath, {
+      version: 1,
+      updatedAt: '',
+      entries: { ctx_old: { id: 'ctx_old', content: 'legacy record' } as never }
+    })
+
+    expect(loadSparseIndex(indexPath).entries).toEqual({})
+  })
+
+  it('should not archive high-retention entries', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    const index = loadSparseIndex(indexPath)
+    archiveEntries(index, scored, session, DEFAULT_CONFIG)
+
+    const kept = scored.filter(e => e.retention >= DEFAULT_CONFIG.compressThreshold)
+    expect(kept.length).toBeGreaterThan(0)
+    kept.forEach(entry => {
+      expect(index.entries[entry.id]).toBeUndefined()
+    })
+  })
+
+  it('should preserve createdAt when an entry is archived again', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    const index = loadSparseIndex(indexPath)
+    archiveEntries(index, scored, session, DEFAULT_CONFIG)
+
+    const id = Object.keys(index.entries)[0]
+    index.entries[id].createdAt = '2020-01-01T00:00:00.000Z'
+    archiveEntries(index, scored, session, DEFAULT_CONFIG)
+
+    expect(index.entries[id].createdAt).toBe('2020-01-01T00:00:00.000Z')
+  })
+
+  it('should evict the oldest entries beyond the cap', () => {
+    const index: SparseIndex = { version: 1, updatedAt: '', entries: {} }
+    for (let i = 0; i < 5; i++) {
+      index.entries[`ctx_${i}`] = {
+        ...createHippocampusEntry({ role: 'tool', content: `output ${i}` }),
+        id: `ctx_${i}`,
+        category: 'tool_result',
+        role: 'tool',
+        tokenEstimate: 10,
+        content: '',
+        createdAt: '',
+        updatedAt: `2026-01-0${i + 1}T00:00:00.000Z`
+      }
+    }
+
+    expect(pruneSparseIndex(index, 3)).toBe(2)
+    expect(Object.keys(index.entries).sort()).toEqual(['ctx_2', 'ctx_3', 'ctx_4'])
+  })
+
+  it('should write pointer ids into the summary that resolve in the index', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    const index = loadSparseIndex(indexPath)
+    archiveEntries(index, scored, session, DEFAULT_CONFIG)
+    saveSparseIndex(indexPath, index)
+
+    const summary = buildHippocampusSummary(scored, session, DEFAULT_CONFIG)
+    const refs = [...summary.matchAll(/\[ref:(ctx_[0-9a-f]+)\]/g)].map(m => m[1])
+
+    expect(refs.length).toBeGreaterThan(0)
+    const reloaded = loadSparseIndex(indexPath)
+    refs.forEach(ref => {
+      expect(reloaded.entries[ref]).toBeDefined()
+    })
+  })
+
+  it('should archive entries the budget demotes, so their refs can be recalled', () => {
+    const config = { ...DEFAULT_CONFIG, targetSummaryTokens: 40 }
+    const scored = scoreMessages(session, config)
+    const plan = planSummary(scored, session, config)
+    const index = loadSparseIndex(indexPath)
+    archiveEntries(index, scored, session, config, plan)
+
+    const demoted = plan.entries.filter((entry, i) =>
+      getRetentionTier(entry, config) === 'kept' && (plan.tiers[i] === 'sparse' || plan.tiers[i] === 'dropped'))
+    expect(demoted.length).toBeGreaterThan(0)
+    for (const entry of demoted) {
+      expect(recallEntries(index, { id: entry.id }, config)[0]?.content).toBe(session[entry.index].content)
+    }
+
+    const summary = buildHippocampusSummary(scored, session, config, undefined, undefined, plan)
+    for (const [, ref] of summary.matchAll(/\[ref:(ctx_[0-9a-f]+)\]/g)) {
+      expect(recallEntries(index, { id: ref }, config)).toHaveLength(1)
+    }
+  })
+
+  it('should resolve relative paths against the workspace', () => {
+    expect(resolveWorkspacePath('/ws', '.pi/index.json')).toBe('/ws/.pi/index.json')
+    expect(resolveWorkspacePath('/ws', '/abs/index.json')).toBe('/abs/index.json')
+    expect(existsSync(indexPath)).toBe(false)
+  })
+})
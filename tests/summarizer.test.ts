@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EXTRACTIVE_SUMMARIZER,
+  collectSummaryRequests,
+  applySummarizer,
+  formatSummarizerInput,
+  parseSummarizerOutput,
+  createModelSummarizer,
+  resolveSummarizer,
+  scoreMessages,
+  getRetentionTier,
+  buildHippocampusSummary,
+  DEFAULT_CONFIG,
+  type HippocampusConfig,
+  type CompactionMessage,
+  type Summarizer,
+  type SummaryRequest
+} from '../extension/hippocampus'
+
+const config: HippocampusConfig = {
+  ...DEFAULT_CONFIG,
+  lifecyclePolicies: [{ match: { type: 'tool_result' }, action: { compression: 'aggressive' } }]
+}
+
+const longNote = 'The loader reads hippocampus.config.json from the workspace root. ' +
+  'It merges the file over the defaults and ignores the global config entirely. ' +
+  'Nested maps such as toolProfiles are merged per key. '.repeat(4)
+
+const session: CompactionMessage[] = [
+  { role: 'user', content: 'How does config loading work?' },
+  { role: 'assistant', content: longNote },
+  { role: 'toolResult', toolName: 'read', content: 'export function loadConfig() {}\n'.repeat(40) },
+  ...Array(6).fill(null).flatMap((_, i) => [
+    { role: 'user', content: `Next question ${i}` },
+    { role: 'assistant', content: `Short answer ${i}` }
+  ])
+]
+
+const withScored = () => {
+  const scored = scoreMessages(session, config)
+  scored[1].retention = 0.4
+  return scored
+}
+
+const stub = (summarize: Summarizer['summarize']): Summarizer => ({ name: 'stub', summarize })
+
+describe('collectSummaryRequests', () => {
+  it('should only ask for compressed entries larger than the summary budget', () => {
+    const scored = withScored()
+    expect(getRetentionTier(scored[1], config)).toBe('compressed')
+
+    const requests = collectSummaryRequests(scored, session, config)
+    expect(requests).toEqual([{ id: scored[1].id, type: 'context', label: 'assistant', text: longNote, maxTokens: 60 }])
+  })
+})
+
+describe('applySummarizer', () => {
+  it('should render digests under the compressed line', async () => {
+    const scored = withScored()
+    const applied = await applySummarizer(scored, session, stub(async (requests) => requests.map(() => 'Workspace config only;\n merged per key.')), config)
+
+    expect(applied).toBe(1)
+    expect(scored[1].digest).toBe('Workspace config only; merged per key.')
+    expect(buildHippocampusSummary(scored, session, config)).toMatch(/^• \(r=0\.40\) \[ASSISTANT\] .+\n {2}Workspace config only; merged per key\.$/m)
+  })
+
+  it('should leave entries untouched when the summarizer fails', async () => {
+    const scored = withScored()
+    const failing = stub(async () => { throw new Error('rate limited') })
+
+    await expect(applySummarizer(scored, session, failing, config)).rejects.toThrow('rate limited')
+    expect(scored[1].digest).toBeUndefined()
+  })
+
+  it('should give up after the configured timeout', async () => {
+    const scored = withScored()
+    let aborted = false
+    const hanging = stub((_requests, signal) => new Promise(() => {
+      signal?.addEventListener('abort', () => { aborted = true })
+    }))
+
+    await expect(applySummarizer(scored, session, hanging, { ...config, summarizerTimeoutMs: 10 })).rejects.toThrow('timed out')
+    expect(aborted).toBe(true)
+    expect(scored[1].digest).toBeUndefined()
+  })
+
+  it('should shrink content with the extractive default', async () => {
+    const scored = withScored()
+    await applySummarizer(scored, session, EXTRACTIVE_SUMMARIZER, config)
+
+    expect(scored[1].digest).toMatch(/^The loader reads hippocampus\.config\.json/)
+    expect(scored[1].digest!.length).toBeLessThanOrEqual(241)
+  })
+})
+
+describe('model summarizer', () => {
+  const requests: SummaryRequest[] = [
+    { id: 'ctx_aaaaaaaaaaaa', type: 'context', label: 'assistant', text: 'first', maxTokens: 60 },
+    { id: 'ctx_bbbbbbbbbbbb', type: 'tool_result', label: 'read(a.ts)', text: 'x'.repeat(5000), maxTokens: 60 }
+  ]
+
+  it('should send each entry with its id and budget and truncate long content', () => {
+    const input = formatSummarizerInput(requests)
+
+    expect(input).toContain('<entry id="ctx_aaaaaaaaaaaa" type="context" source="assistant" max_tokens="60">\nfirst\n</entry>')
+    expect(input).toContain('x'.repeat(4000) + '\n…')
+    expect(input).not.toContain('x'.repeat(4001))
+  })
+
+  it('should read summaries back by id, in request order', () => {
+    const output = '- ctx_bbbbbbbbbbbb: Reads a.ts.\n`ctx_aaaaaaaaaaaa`: First note.\nNoise line'
+    expect(parseSummarizerOutput(output, requests)).toEqual(['First note.', 'Reads a.ts.'])
+    expect(parseSummarizerOutput('', requests)).toEqual([undefined, undefined])
+  })
+
+  it('should fail cleanly where @mariozechner/pi-ai is not available', async () => {
+    const summarizer = createModelSummarizer({ model: { id: 'test-model' }, ui: { notify: () => {} } })
+    await expect(summarizer.summarize(requests)).rejects.toThrow()
+  })
+
+  it('should reject a summarizerModel without a provider before loading a model', async () => {
+    const summarizer = createModelSummarizer({ ui: { notify: () => {} } }, 'claude-haiku-4-5')
+    await expect(summarizer.summarize(requests)).rejects.toThrow('summarizerModel must be provider/id, got "claude-haiku-4-5"')
+  })
+
+  it('should be chosen by config', () => {
+    const ctx = { ui: { notify: () => {} } }
+    // Extractive digests are built by buildHippocampusSummary itself
+    expect(resolveSummarizer(DEFAULT_CONFIG)).toBeUndefined()
+    expect(resolveSummarizer({ ...DEFAULT_CONFIG, summarizer: 'none' })).toBeUndefined()
+    expect(resolveSummarizer({ ...DEFAULT_CONFIG, summarizer: 'model' }, ctx)?.name).toBe('model')
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  HEURISTIC_TOKENIZER,
+  createBpeTokenizer,
+  selectTokenizerName,
+  resolveTokenizer,
+  estimateTokens,
+  scoreMessages,
+  DEFAULT_CONFIG,
+  type BpeRankFile,
+  type HippocampusConfig
+} from '../extension/hippocampus'
+
+// a b c ␠ ab abc
+const tinyRanks: BpeRankFile = {
+  name: 'tiny',
+  pat_str: '\\S+|\\s+',
+  bpe_ranks: '! 0 YQ== Yg== Yw== IA== YWI= YWJj'
+}
+
+describe('BPE tokenizer', () => {
+  it('should merge byte pairs by rank', () => {
+    const tokenizer = createBpeTokenizer(tinyRanks)
+
+    expect(tokenizer.name).toBe('tiny')
+    expect(tokenizer.count('abc ab')).toBe(3)
+    expect(tokenizer.count('cab')).toBe(2)
+    expect(tokenizer.count('')).toBe(0)
+  })
+
+  it('should count with the bundled cl100k_base vocabulary', () => {
+    const tokenizer = resolveTokenizer(DEFAULT_CONFIG)
+
+    expect(tokenizer.name).toBe('cl100k_base')
+    expect(tokenizer.count('Hello world, this is a test.')).toBe(8)
+  })
+
+  it('should count Cyrillic far above the 4-chars-per-token heuristic', () => {
+    const text = 'Разверни сервис на staging и проверь логи. Запомни: никогда не деплой в пятницу!'
+    const tokenizer = resolveTokenizer(DEFAULT_CONFIG)
+
+    expect(tokenizer.count(text)).toBe(37)
+    expect(HEURISTIC_TOKENIZER.count(text)).toBe(20)
+  })
+
+  it('should stay fast on pathological single-piece input', () => {
+    const tokenizer = resolveTokenizer(DEFAULT_CONFIG)
+    const started = Date.now()
+
+    expect(tokenizer.count('A'.repeat(50000))).toBeGreaterThan(0)
+    expect(Date.now() - started).toBeLessThan(2000)
+  })
+
+  it('should feed token estimates into scoring', () => {
+    const tokenizer = createBpeTokenizer(tinyRanks)
+    const messages = [{ role: 'user', content: 'abc ab' }]
+
+    expect(estimateTokens(messages[0], tokenizer)).toBe(3)
+    expect(scoreMessages(messages, DEFAULT_CONFIG, undefined, tokenizer)[0].tokenEstimate).toBe(3)
+  })
+})
+
+describe('tokenizer selection', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hippocampus-tokenizers-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should pick the first matching model pattern', () => {
+    const config: HippocampusConfig = {
+      ...DEFAULT_CONFIG,
+      tokenizerByModel: { 'gpt-4o*': 'o200k_base', 'claude-*': 'cl100k_base', '*': 'heuristic' }
+    }
+
+    expect(selectTokenizerName(config, 'gpt-4o-mini')).toBe('o200k_base')
+    expect(selectTokenizerName(config, 'Claude-Sonnet-4')).toBe('cl100k_base')
+    expect(selectTokenizerName(config, 'llama3')).toBe('heuristic')
+    expect(selectTokenizerName(config)).toBe('cl100k_base')
+  })
+
+  it('should load rank files from a configured directory', () => {
+    writeFileSync(join(dir, 'tiny.json'), JSON.stringify(tinyRanks))
+    const config: HippocampusConfig = { ...DEFAULT_CONFIG, tokenizer: 'tiny', tokenizerDir: dir }
+
+    expect(resolveTokenizer(config).count('abc ab')).toBe(3)
+  })
+
+  it('should fall back to the heuristic when a rank file is missing or invalid', () => {
+    writeFileSync(join(dir, 'broken.json'), '{ "pat_str": 1 }')
+
+    expect(resolveTokenizer({ ...DEFAULT_CONFIG, tokenizer: 'o200k_base', tokenizerDir: dir })).toBe(HEURISTIC_TOKENIZER)
+    expect(resolveTokenizer({ ...DEFAULT_CONFIG, tokenizer: 'broken', tokenizerDir: dir })).toBe(HEURISTIC_TOKENIZER)
+    expect(resolveTokenizer({ ...DEFAULT_CONFIG, tokenizer: 'heuristic' })).toBe(HEURISTIC_TOKENIZER)
+  })
+})
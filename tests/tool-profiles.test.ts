@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  getToolProfile,
+  extractPreview,
+  scoreMessages,
+  getRetentionTier,
+  createHippocampusEntry,
+  archiveEntries,
+  loadConfig,
+  DEFAULT_CONFIG,
+  type HippocampusConfig,
+  type CompactionMessage,
+  type SparseIndex
+} from '../extension/hippocampus'
+
+const withProfiles = (toolProfiles: HippocampusConfig['toolProfiles']): HippocampusConfig => ({
+  ...DEFAULT_CONFIG,
+  toolProfiles: { ...DEFAULT_CONFIG.toolProfiles, ...toolProfiles }
+})
+
+const bashOutput = ['> npm test', ...Array(40).fill('  ✓ passing test'), 'Tests: 40 passed', 'Done in 3.2s'].join('\n')
+
+const session: CompactionMessage[] = [
+  { role: 'user', content: 'Fix the failing tests' },
+  { role: 'toolResult', toolName: 'read', content: 'export function add(a, b) { return a - b }' },
+  { role: 'toolResult', toolName: 'bash', content: bashOutput },
+  { role: 'toolResult', toolName: 'edit', content: 'Successfully replaced text in src/math.ts' },
+  { role: 'toolResult', toolName: 'browser_snapshot', content: '<html>checkout page</html>' },
+  { role: 'user', content: 'Thanks' }
+]
+
+describe('getToolProfile', () => {
+  it('should ship default profiles for the common Pi tools', () => {
+    for (const tool of ['read', 'write', 'edit', 'bash', 'grep']) {
+      expect(getToolProfile(tool, DEFAULT_CONFIG)).toBeDefined()
+    }
+    expect(getToolProfile('browser_snapshot', DEFAULT_CONFIG)).toBeUndefined()
+  })
+
+  it('should prefer exact names over wildcard patterns', () => {
+    const config = withProfiles({ 'b*': { decayRate: 0.9 }, browser_snapshot: { decayRate: 0.5 } })
+
+    expect(getToolProfile('BROWSER_SNAPSHOT', config)?.decayRate).toBe(0.5)
+    expect(getToolProfile('browser_click', config)?.decayRate).toBe(0.9)
+    expect(getToolProfile('bash', config)).toBe(DEFAULT_CONFIG.toolProfiles.bash)
+  })
+})
+
+describe('extractPreview modes', () => {
+  const msg: CompactionMessage = { role: 'toolResult', content: 'start ' + 'x'.repeat(200) + ' the end\n' }
+
+  it('should keep the start, the end or both', () => {
+    expect(extractPreview(msg, 20)).toMatch(/^start x+…$/)
+    expect(extractPreview(msg, 20, 'tail')).toMatch(/^…x+ the end$/)
+    expect(extractPreview(msg, 20, 'head_tail')).toBe('start xxxx … xx the end')
+  })
+})
+
+describe('tool profiles in scoring', () => {
+  it('should give each tool its own decay rate and importance', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(scored[1].decayRate).toBe(0.25)
+    expect(scored[2].decayRate).toBe(0.2)
+    expect(scored[4].decayRate).toBeUndefined()
+    expect(scored[3].importance).toBeGreaterThan(scored[4].importance)
+  })
+
+  it('should preview bash output from the end', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+
+    expect(scored[2].summarize).toBe('tail')
+    expect(scored[2].contentPreview).toContain('Done in 3.2s')
+    expect(scored[1].summarize).toBeUndefined()
+  })
+
+  it('should keep pointer tools in the sparse index unless a policy says otherwise', () => {
+    const scored = scoreMessages(session, DEFAULT_CONFIG)
+    expect(getRetentionTier(scored[3], DEFAULT_CONFIG)).toBe('sparse')
+
+    const config = { ...DEFAULT_CONFIG, lifecyclePolicies: [{ match: { 'source.type': 'edit' }, action: { compression: 'none' as const } }] }
+    expect(getRetentionTier(scoreMessages(session, config)[3], config)).toBe('kept')
+  })
+
+  it('should leave custom types from classifier rules to their own profile', () => {
+    const config: HippocampusConfig = {
+      ...DEFAULT_CONFIG,
+      classifierRules: [{ match: { toolName: 'bash', pattern: 'passed' }, type: 'test_run' }],
+      customTypes: { test_run: { extends: 'tool_result', decayRate: 0.05 } }
+    }
+    const scored = scoreMessages(session, config)
+
+    expect(scored[2].type).toBe('test_run')
+    expect(scored[2].decayRate).toBeUndefined()
+    expect(createHippocampusEntry(session[2], { scored: scored[2], config }).decay.rate).toBe(0.05)
+  })
+
+  it('should archive non-retrievable output even while it is kept', () => {
+    const config: HippocampusConfig = {
+      ...withProfiles({ bash: { retrievable: false }, read: { retrievable: true } }),
+      lifecyclePolicies: [{ match: { type: 'tool_result' }, action: { compression: 'none' } }]
+    }
+    const scored = scoreMessages(session, config)
+    expect(getRetentionTier(scored[1], config)).toBe('kept')
+    expect(getRetentionTier(scored[2], config)).toBe('kept')
+
+    const index: SparseIndex = { version: 2, updatedAt: '', entries: {} }
+    archiveEntries(index, scored, session, config)
+
+    expect(index.entries[scored[2].id]).toBeDefined()
+    expect(index.entries[scored[1].id]).toBeUndefined()
+  })
+})
+
+describe('tool profiles in config', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hippocampus-tools-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should merge configured profiles over the defaults per tool', () => {
+    writeFileSync(join(dir, 'hippocampus.config.json'), JSON.stringify({
+      toolProfiles: { bash: { decayRate: 0.5 }, 'browser_*': { summarize: 'pointer' } }
+    }))
+    const config = loadConfig(dir)
+
+    expect(config.toolProfiles.bash).toEqual({ decayRate: 0.5 })
+    expect(config.toolProfiles.read).toEqual(DEFAULT_CONFIG.toolProfiles.read)
+    expect(getToolProfile('browser_snapshot', config)?.summarize).toBe('pointer')
+  })
+})